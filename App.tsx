@@ -1,17 +1,45 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Home, Puzzle, Settings, Image as ImageIcon, Sparkles, Clock, ArrowLeft, RotateCcw, Flame, Play, ChevronRight, Wand2, History, Layers, HelpCircle, X, MousePointer2, RotateCw, Shapes, Eye, Lightbulb, Zap, Check, CloudDownload, WifiOff, Wifi, Activity, AlertTriangle, Upload, Plus, Trash2, Trophy, Target, Gift } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Home, Puzzle, Settings, Image as ImageIcon, Sparkles, Clock, ArrowLeft, RotateCcw, Flame, Play, ChevronRight, Wand2, History, Layers, HelpCircle, X, MousePointer2, RotateCw, Shapes, Eye, Lightbulb, Zap, Check, CloudDownload, WifiOff, Wifi, Activity, AlertTriangle, Upload, Plus, Trash2, Trophy, Target, Gift, BarChart3, Medal } from 'lucide-react';
 import GameBoard from './components/GameBoard';
 import { generateImage } from './services/pexelsService';
 import { syncPuzzleImage, getFullQualityImage, saveGeneratedPuzzle, loadSavedGeneratedPuzzles, persistGeneratedMetadata, saveUserUploadedPuzzle, loadUserUploadedPuzzles, deleteUserUploadedPuzzle, deleteGeneratedPuzzle, checkImagesExistInDB, updatePuzzleMetadataInDB } from './services/offlineStorage';
 import { rebuildDatabase } from './utils/storage';
-import { loadUserStats, formatTime, resetBestTimes, resetBestTimeForDifficulty } from './services/statsService';
+import { loadUserStats, formatTime, resetBestTimes, resetBestTimeForDifficulty, getCustomBestTimes, getSolvedCount } from './services/statsService';
 import { initializeQuests, claimReward } from './services/questService';
-import { GameState, Difficulty, PuzzleConfig, AppView, GeneratedImage, UserStats } from './types';
-import { INITIAL_PUZZLES, QUESTS, CHALLENGES } from './constants';
+import { describeQuest } from './utils/questRules';
+import { profileKey } from './services/accountService';
+import { loadHistory, getAllPuzzleBests, formatLastPlayed } from './services/historyService';
+import { getAchievementProgress } from './services/achievementService';
+import { syncProfile, loadCompletedIds, saveCompletedIds, loadHiddenIds, saveHiddenIds, loadStreak, saveStreak, getActiveStreak } from './services/profileService';
+import { GameState, Difficulty, PuzzleConfig, AppView, GeneratedImage, UserStats, CompletionHistoryEntry } from './types';
+import { INITIAL_PUZZLES, QUESTS, CHALLENGES, ACHIEVEMENTS } from './constants';
+import { getDailySeed } from './utils/puzzleUtils';
 import { DiagnosticsModal } from './components/DiagnosticsModal';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { LeaderboardPanel } from './components/LeaderboardPanel';
+import { CompletionHistory } from './components/CompletionHistory';
+import { AchievementBadge } from './components/AchievementBadge';
+import { BarChart, TimeLineChart, RankedBars, StreakTimeline } from './components/StatsCharts';
+import { completionsPerBucket, pointsPerBucket, averageTimeByDifficulty, topCategories, streakHistory } from './utils/statsCharts';
+
+// Line colours for the stats view's average time chart
+const DIFFICULTY_CHART_COLORS: Record<Difficulty, string> = { easy: '#10b981', normal: '#6366f1', hard: '#f59e0b', expert: '#f43f5e' };
+
+// How many buckets each stats chart range covers
+const STATS_RANGES = { day: 14, week: 12 };
 
 const INITIAL_CATEGORIES = ['Classic Cars', 'Animals', 'Cats', 'Disney Characters', 'Historical Buildings', 'People', 'Abstract', 'Nature', 'Urban', 'Spring', 'Summer', 'Autumn', 'Winter', 'Indoor', 'Fine Art & Masterpieces', 'Icons & Logos', 'Movies & TV Shows', 'Album Covers', 'Abstract & Colour Gradients'];
 
+// Puzzle ids by built-in category, for achievements. The whole catalogue counts, hidden puzzles
+// included, and categories made up for uploads don't, so a category can't be finished by hiding
+// its puzzles or by filling a new one with a single upload.
+const CATEGORY_PUZZLE_IDS: Record<string, string[]> = {};
+INITIAL_PUZZLES.forEach(p => {
+    if (!p.category || !INITIAL_CATEGORIES.includes(p.category)) return;
+    if (!CATEGORY_PUZZLE_IDS[p.category]) CATEGORY_PUZZLE_IDS[p.category] = [];
+    CATEGORY_PUZZLE_IDS[p.category].push(p.id);
+});
+
 const DIFFICULTY_RANK: Record<string, number> = {
   'easy': 1,
   'normal': 2,
@@ -32,6 +60,9 @@ const App: React.FC = () => {
   const [promptInput, setPromptInput] = useState('');
   const [savedGameIds, setSavedGameIds] = useState<Set<string>>(new Set());
   const [completedPuzzleIds, setCompletedPuzzleIds] = useState<Set<string>>(new Set());
+  const [completionHistory, setCompletionHistory] = useState<CompletionHistoryEntry[]>([]);
+  const puzzleBests = useMemo(() => getAllPuzzleBests(completionHistory), [completionHistory]);
+  const [statsRange, setStatsRange] = useState<'day' | 'week'>('day');
   const [showHowToPlay, setShowHowToPlay] = useState(false);
   
   // Upload State
@@ -56,7 +87,11 @@ const App: React.FC = () => {
   const [hiddenPuzzleIds, setHiddenPuzzleIds] = useState<Set<string>>(new Set());
   const [isOfflineMode, setIsOfflineMode] = useState(false);
   const [isNetworkOffline, setIsNetworkOffline] = useState(!navigator.onLine);
-  const [userStats, setUserStats] = useState<UserStats>({ totalPoints: 0, bestTimes: { easy: null, normal: null, hard: null, expert: null } });
+  const [userStats, setUserStats] = useState<UserStats>({
+    totalPoints: 0,
+    bestTimes: { easy: null, normal: null, hard: null, expert: null },
+    chaosBestTimes: { easy: null, normal: null, hard: null, expert: null }
+  });
   const [isInitializing, setIsInitializing] = useState(true);
   const [timeLeft, setTimeLeft] = useState('');
   const [dailyTimeLeft, setDailyTimeLeft] = useState('');
@@ -176,10 +211,11 @@ const App: React.FC = () => {
   const checkForSavedGames = () => {
       try {
           const saves = new Set<string>();
+          const savePrefix = profileKey('save_');
           for (let i = 0; i < localStorage.length; i++) {
               const key = localStorage.key(i);
-              if (key && key.startsWith('mosaic_save_')) {
-                  const puzzleId = key.replace('mosaic_save_', '');
+              if (key && key.startsWith(savePrefix)) {
+                  const puzzleId = key.replace(savePrefix, '');
                   saves.add(puzzleId);
               }
           }
@@ -306,52 +342,30 @@ const App: React.FC = () => {
             checkForSavedGames();
 
             // Load Completed Puzzles
-            try {
-                const savedCompleted = localStorage.getItem('mosaic_completed_ids');
-                if (savedCompleted) {
-                    setCompletedPuzzleIds(new Set(JSON.parse(savedCompleted)));
-                }
-            } catch (e) {
-                console.error("Failed to load completed puzzles", e);
-            }
+            setCompletedPuzzleIds(new Set(loadCompletedIds()));
+            setCompletionHistory(loadHistory());
 
             // Streak Logic
-            try {
-                const storedStreak = parseInt(localStorage.getItem('mosaic_streak') || '0');
-                const lastWin = localStorage.getItem('mosaic_last_win');
-                const today = new Date().toDateString();
-                const yesterday = new Date(Date.now() - 86400000).toDateString();
-
-                if (lastWin && lastWin !== today && lastWin !== yesterday) {
-                    setStreak(0);
-                    localStorage.setItem('mosaic_streak', '0');
-                } else {
-                    setStreak(storedStreak);
-                }
-            } catch(e) {}
+            setStreak(getActiveStreak(loadStreak()));
 
             // Generate Daily Puzzle
             const today = new Date().toDateString();
             const dateSeed = today.replace(/ /g, '-');
+            const dailyId = `daily-${dateSeed}`;
             setDailyPuzzle({
-                id: `daily-${dateSeed}`,
+                id: dailyId,
                 title: `Daily Challenge: ${new Date().toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}`,
                 src: `https://picsum.photos/seed/${dateSeed}/800/800`,
                 difficulty: 'normal',
                 category: 'Daily',
-                isDaily: true
+                isDaily: true,
+                seed: getDailySeed(dailyId) ?? undefined
             });
 
             // Load Puzzles (Hidden, Discoveries, User Uploads)
             // Load Hidden Puzzles
-            let hidden = new Set<string>();
-            try {
-                const hiddenStr = localStorage.getItem('mosaic_hidden_ids');
-                if (hiddenStr) {
-                    hidden = new Set(JSON.parse(hiddenStr));
-                    setHiddenPuzzleIds(hidden);
-                }
-            } catch(e) { console.error(e); }
+            const hidden = new Set(loadHiddenIds());
+            setHiddenPuzzleIds(hidden);
 
             let storedDiscoveries: PuzzleConfig[] = [];
             
@@ -441,13 +455,7 @@ const App: React.FC = () => {
            // Randomize difficulty for unsolved puzzles
            const difficulties: Difficulty[] = ['easy', 'normal', 'hard', 'expert'];
            // We need to use the locally loaded completed set because state update is async
-           let currentCompleted = new Set<string>();
-           try {
-               const savedCompleted = localStorage.getItem('mosaic_completed_ids');
-               if (savedCompleted) {
-                   currentCompleted = new Set(JSON.parse(savedCompleted));
-               }
-           } catch (e) {}
+           const currentCompleted = new Set(loadCompletedIds());
 
            allPuzzles = allPuzzles.map(p => {
                if (!currentCompleted.has(p.id)) {
@@ -460,6 +468,16 @@ const App: React.FC = () => {
            // Filter out hidden puzzles
            setGalleryPuzzles(allPuzzles.filter(p => !hidden.has(p.id)));
 
+           // Progress made on other devices arrives once the server answers
+           const profile = await syncProfile();
+           const syncedHidden = new Set(profile.hiddenIds);
+           setUserStats(initializeQuests(profile.stats));
+           setCompletedPuzzleIds(new Set(profile.completedIds));
+           setCompletionHistory(profile.history);
+           setHiddenPuzzleIds(syncedHidden);
+           setGalleryPuzzles(prev => prev.filter(p => !syncedHidden.has(p.id)));
+           setStreak(getActiveStreak(profile));
+
         } catch (e) {
             console.error("Initialization Failed", e);
             setError({ title: "Startup Error", message: "Failed to initialize application. Please refresh." });
@@ -658,10 +676,11 @@ const App: React.FC = () => {
               }
           } else {
               // Default puzzle - Hide via ID exclusion
-              const newHidden = new Set(hiddenPuzzleIds);
+              const newHidden = new Set<string>(hiddenPuzzleIds);
               newHidden.add(puzzle.id);
               setHiddenPuzzleIds(newHidden);
-              localStorage.setItem('mosaic_hidden_ids', JSON.stringify(Array.from(newHidden)));
+              saveHiddenIds(Array.from(newHidden));
+              syncProfile();
           }
 
           // Update State
@@ -761,6 +780,7 @@ const App: React.FC = () => {
       if (window.confirm("Are you sure you want to reset ALL your best times? This cannot be undone.")) {
           const newStats = resetBestTimes();
           setUserStats(newStats);
+          syncProfile();
       }
   };
 
@@ -768,6 +788,7 @@ const App: React.FC = () => {
       if (window.confirm(`Are you sure you want to reset your best time for ${difficulty}?`)) {
           const newStats = resetBestTimeForDifficulty(difficulty);
           setUserStats(newStats);
+          syncProfile();
       }
   };
 
@@ -782,16 +803,17 @@ const App: React.FC = () => {
   const handlePuzzleComplete = () => {
      if (selectedPuzzle) {
         try {
-            localStorage.removeItem(`mosaic_save_${selectedPuzzle.id}`);
+            localStorage.removeItem(profileKey(`save_${selectedPuzzle.id}`));
             
-            const newCompleted = new Set(completedPuzzleIds);
+            const newCompleted = new Set<string>(completedPuzzleIds);
             newCompleted.add(selectedPuzzle.id);
             setCompletedPuzzleIds(newCompleted);
-            localStorage.setItem('mosaic_completed_ids', JSON.stringify(Array.from(newCompleted)));
+            saveCompletedIds(Array.from(newCompleted));
         } catch(e) {}
         
         // Reload stats
         setUserStats(loadUserStats());
+        setCompletionHistory(loadHistory());
      }
      
      checkForSavedGames();
@@ -799,21 +821,21 @@ const App: React.FC = () => {
      if (selectedPuzzle && selectedPuzzle.isDaily) {
          try {
             const today = new Date().toDateString();
-            const lastWin = localStorage.getItem('mosaic_last_win');
+            const { streak: currentStored, lastWin } = loadStreak();
             
             if (lastWin !== today) {
                 const yesterday = new Date(Date.now() - 86400000).toDateString();
-                const currentStored = parseInt(localStorage.getItem('mosaic_streak') || '0');
                 let newStreak = 1;
                 if (lastWin === yesterday) {
                     newStreak = currentStored + 1;
                 }
                 setStreak(newStreak);
-                localStorage.setItem('mosaic_streak', newStreak.toString());
-                localStorage.setItem('mosaic_last_win', today);
+                saveStreak(newStreak, today);
             }
          } catch(e) {}
      }
+
+     syncProfile();
   };
 
   const renderHowToPlay = () => (
@@ -1044,6 +1066,8 @@ const App: React.FC = () => {
         <HelpCircle size={28} className="group-hover:text-indigo-600 transition-colors" />
       </button>
 
+      <ProfileSwitcher className="absolute top-6 right-24 lg:top-10 lg:right-28" />
+
       <header className="mb-12 text-center space-y-3 pt-8 flex-shrink-0">
         <h1 className="text-6xl md:text-7xl font-medium tracking-tight text-slate-900 drop-shadow-sm">Mosaic</h1>
         <p className="text-slate-500 text-lg md:text-xl font-light tracking-wide">Find your peace, piece by piece.</p>
@@ -1103,13 +1127,27 @@ const App: React.FC = () => {
                       </div>
                       <h2 className="text-2xl font-serif font-bold text-slate-800">Your Progress</h2>
                   </div>
-                  <button 
-                    onClick={handleResetStats}
-                    className="text-slate-400 hover:text-rose-500 transition-colors p-2 rounded-full hover:bg-rose-50"
-                    title="Reset Best Times"
-                  >
-                      <RotateCcw size={20} />
-                  </button>
+                  <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => navigateToView('trophies')}
+                        className="flex items-center gap-2 text-sm font-bold text-amber-600 hover:bg-amber-50 transition-colors px-3 py-2 rounded-full"
+                      >
+                          <Medal size={18} /> Trophies
+                      </button>
+                      <button
+                        onClick={() => navigateToView('stats')}
+                        className="flex items-center gap-2 text-sm font-bold text-indigo-600 hover:bg-indigo-50 transition-colors px-3 py-2 rounded-full"
+                      >
+                          <BarChart3 size={18} /> All Stats
+                      </button>
+                      <button 
+                        onClick={handleResetStats}
+                        className="text-slate-400 hover:text-rose-500 transition-colors p-2 rounded-full hover:bg-rose-50"
+                        title="Reset Best Times"
+                      >
+                          <RotateCcw size={20} />
+                      </button>
+                  </div>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
@@ -1123,7 +1161,7 @@ const App: React.FC = () => {
                   <div className="lg:col-span-4 grid grid-cols-2 md:grid-cols-4 gap-4">
                       {(['easy', 'normal', 'hard', 'expert'] as Difficulty[]).map(diff => (
                           <div key={diff} className="bg-slate-50 rounded-2xl p-4 border border-slate-100 flex flex-col items-center relative group">
-                              {userStats.bestTimes[diff] !== null && (
+                              {(userStats.bestTimes[diff] !== null || userStats.chaosBestTimes[diff] !== null || getCustomBestTimes(userStats, diff).length > 0) && (
                                   <button 
                                     onClick={() => handleResetDifficultyStats(diff)}
                                     className="absolute top-2 right-2 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
@@ -1136,6 +1174,16 @@ const App: React.FC = () => {
                               <span className={`font-mono font-bold text-lg ${userStats.bestTimes[diff] ? 'text-slate-700' : 'text-slate-300'}`}>
                                   {formatTime(userStats.bestTimes[diff])}
                               </span>
+                              {userStats.chaosBestTimes[diff] !== null && (
+                                  <span className="mt-1 text-[10px] font-bold uppercase tracking-wider text-rose-400">
+                                      Chaos {formatTime(userStats.chaosBestTimes[diff])}
+                                  </span>
+                              )}
+                              {getCustomBestTimes(userStats, diff).map(best => (
+                                  <span key={`${best.pieceCount}-${best.isChaosMode}`} className={`mt-1 text-[10px] font-bold uppercase tracking-wider ${best.isChaosMode ? 'text-rose-400' : 'text-slate-400'}`}>
+                                      {best.pieceCount} pcs{best.isChaosMode ? ' chaos' : ''} {formatTime(best.time)}
+                                  </span>
+                              ))}
                           </div>
                       ))}
                   </div>
@@ -1143,6 +1191,25 @@ const App: React.FC = () => {
           </div>
       </div>
 
+      {/* Leaderboards */}
+      <div className="mb-10 w-full">
+          <div className="bg-white rounded-[2rem] p-6 md:p-8 shadow-sm border border-slate-100">
+              <div className="flex items-center gap-3 mb-6">
+                  <div className="bg-indigo-100 p-2.5 rounded-xl text-indigo-600">
+                      <Trophy size={24} />
+                  </div>
+                  <h2 className="text-2xl font-serif font-bold text-slate-800">Leaderboards</h2>
+              </div>
+              <LeaderboardPanel
+                boards={[
+                  ...(dailyPuzzle ? [{ id: 'daily', label: 'Daily', query: { puzzleId: dailyPuzzle.id } }] : []),
+                  { id: 'week', label: 'This Week', query: { period: 'week' as const } },
+                  { id: 'all', label: 'All Time', query: {} }
+                ]}
+              />
+          </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 pb-10 flex-shrink-0">
         <div className="group bg-white p-8 md:p-10 rounded-[2.5rem] shadow-sm border border-slate-100 transition-all duration-300 hover:shadow-xl hover:-translate-y-1 hover:border-indigo-100 cursor-pointer relative overflow-hidden active:scale-[0.99]"
              onClick={() => navigateToView('gallery')}>
@@ -1215,17 +1282,17 @@ const App: React.FC = () => {
           return p.category === activeCategory;
       });
 
-      const idsToReset = new Set(puzzlesToReset.map(p => p.id));
+      const idsToReset = new Set<string>(puzzlesToReset.map(p => p.id));
 
       // 1. Remove from completed
-      const newCompleted = new Set(completedPuzzleIds);
+      const newCompleted = new Set<string>(completedPuzzleIds);
       idsToReset.forEach(id => newCompleted.delete(id));
       setCompletedPuzzleIds(newCompleted);
-      localStorage.setItem('mosaic_completed_puzzles', JSON.stringify(Array.from(newCompleted)));
+      saveCompletedIds(Array.from(newCompleted));
 
       // 2. Remove saved games
       idsToReset.forEach(id => {
-          localStorage.removeItem(`mosaic_save_${id}`);
+          localStorage.removeItem(profileKey(`save_${id}`));
       });
       checkForSavedGames();
 
@@ -1421,6 +1488,7 @@ const App: React.FC = () => {
                     })
                     .map(puzzle => {
                      const isCompleted = completedPuzzleIds.has(puzzle.id);
+                     const bests = puzzleBests[puzzle.id];
                      const displaySrc = thumbnails[puzzle.id] || puzzle.src;
                      const isAvailableLocally = puzzle.isUserUpload || (puzzle.src && puzzle.src.startsWith('blob:')) || !!thumbnails[puzzle.id];
                      
@@ -1463,6 +1531,11 @@ const App: React.FC = () => {
 
                              <div className="absolute bottom-0 left-0 right-0 p-4 transform translate-y-2 group-hover:translate-y-0 transition-transform">
                                  <h3 className="text-white font-bold text-sm truncate shadow-black drop-shadow-md">{puzzle.title}</h3>
+                                 {bests && (
+                                     <p className="text-[10px] text-white/90 font-medium drop-shadow-md truncate">
+                                         Best {formatTime(bests.bestTime)} · {formatLastPlayed(bests.lastPlayed)}
+                                     </p>
+                                 )}
                                  <div className="flex items-center justify-between mt-1">
                                      <span className="text-[10px] text-white/80 uppercase tracking-wider font-medium">{puzzle.difficulty || 'Normal'}</span>
                                      <div className="bg-white/20 backdrop-blur-sm rounded-full p-1.5">
@@ -1487,6 +1560,7 @@ const App: React.FC = () => {
       const handleClaim = (id: string, isChallenge: boolean) => {
           const newStats = claimReward(id, isChallenge);
           setUserStats({ ...newStats });
+          syncProfile();
       };
 
       const renderQuestItem = (def: import('./types').QuestDefinition, progress: import('./types').QuestProgress | undefined, isChallenge: boolean) => {
@@ -1496,13 +1570,7 @@ const App: React.FC = () => {
           const targetValue = def.targetValue;
           const percentage = Math.min(100, Math.max(0, (currentValue / targetValue) * 100));
           
-          // Dynamic description for Category Explorer
-          let description = def.description;
-          if (def.id === 'q2' && stats.weeklyCategory) {
-              description = `Complete ${targetValue} puzzles in the ${stats.weeklyCategory} category.`;
-          } else if (def.id === 'c3' && stats.dailyCategory) {
-              description = `Complete a puzzle in the ${stats.dailyCategory} category.`;
-          }
+          const description = describeQuest(def, isChallenge ? stats.dailyCategory : stats.weeklyCategory);
 
           return (
               <div key={def.id} className={`bg-white rounded-2xl p-6 shadow-sm border ${isClaimed ? 'border-emerald-200 bg-emerald-50/30' : 'border-slate-100'} flex flex-col md:flex-row items-start md:items-center justify-between gap-4 transition-all hover:shadow-md`}>
@@ -1610,6 +1678,166 @@ const App: React.FC = () => {
       );
   };
 
+  const renderStats = () => {
+      const bucketCount = STATS_RANGES[statsRange];
+      const averageTimes = averageTimeByDifficulty(completionHistory, STATS_RANGES.week);
+      const streakRuns = streakHistory(completionHistory);
+      const longestStreak = Math.max(0, ...streakRuns.map(r => r.length));
+      // Games recorded before categories were kept take theirs from the gallery
+      const categorised = completionHistory.map(e => (e.category ? e : { ...e, category: galleryPuzzles.find(p => p.id === e.puzzleId)?.category }));
+
+      const renderChartCard = (title: string, chart: React.ReactNode, className = '') => (
+          <div className={`bg-white rounded-[2rem] p-6 shadow-sm border border-slate-100 ${className}`}>
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">{title}</h3>
+              {chart}
+          </div>
+      );
+
+      return (
+        <div className="flex flex-col h-[100dvh] bg-slate-50">
+          <header className="flex-shrink-0 px-6 py-4 bg-white/80 backdrop-blur-md border-b border-slate-200 flex items-center justify-between sticky top-0 z-20">
+              <div className="flex items-center gap-4">
+                <button onClick={() => navigateToView('home')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500 transition-colors">
+                  <ArrowLeft size={24} />
+                </button>
+                <h2 className="text-xl font-serif font-bold text-slate-800">Your Stats</h2>
+              </div>
+              <div className="flex items-center gap-2 bg-indigo-50 px-4 py-2 rounded-xl text-indigo-700 font-bold">
+                  <Check size={18} />
+                  <span>{getSolvedCount(userStats, completionHistory).toLocaleString()} solved</span>
+              </div>
+          </header>
+
+          <main className="flex-1 overflow-y-auto p-4 md:p-8 pb-32 custom-scrollbar">
+             <div className="max-w-4xl mx-auto space-y-12">
+                 <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                     {[
+                         { label: 'Puzzles Solved', value: getSolvedCount(userStats, completionHistory).toLocaleString() },
+                         { label: 'Total Points', value: userStats.totalPoints.toLocaleString() },
+                         { label: 'Current Streak', value: `${streak}d` },
+                         { label: 'Longest Streak', value: `${longestStreak}d` }
+                     ].map(tile => (
+                         <div key={tile.label} className="bg-white rounded-2xl p-5 shadow-sm border border-slate-100 text-center">
+                             <div className="text-3xl font-bold text-slate-800 font-mono">{tile.value}</div>
+                             <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-1">{tile.label}</div>
+                         </div>
+                     ))}
+                 </section>
+
+                 <section>
+                     <div className="flex items-center justify-between mb-6">
+                         <div className="flex items-center gap-3">
+                             <div className="bg-emerald-100 text-emerald-600 p-2 rounded-xl">
+                                 <BarChart3 size={24} />
+                             </div>
+                             <div>
+                                 <h2 className="text-2xl font-bold text-slate-800">Trends</h2>
+                                 <p className="text-slate-500 text-sm">How often you play and how you're improving.</p>
+                             </div>
+                         </div>
+                         <div className="flex gap-1 bg-slate-100 p-1 rounded-xl">
+                             {(['day', 'week'] as const).map(range => (
+                                 <button
+                                   key={range}
+                                   onClick={() => setStatsRange(range)}
+                                   className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${statsRange === range ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                                 >
+                                     {range === 'day' ? 'Daily' : 'Weekly'}
+                                 </button>
+                             ))}
+                         </div>
+                     </div>
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                         {renderChartCard('Puzzles Completed', <BarChart data={completionsPerBucket(completionHistory, bucketCount, statsRange)} />)}
+                         {renderChartCard('Points Earned', <BarChart data={pointsPerBucket(completionHistory, bucketCount, statsRange)} color="bg-emerald-500" />)}
+                         {renderChartCard('Average Time by Difficulty', (
+                             <TimeLineChart
+                               labels={averageTimes.labels}
+                               series={averageTimes.series.map(s => ({ ...s, label: s.id.charAt(0).toUpperCase() + s.id.slice(1), color: DIFFICULTY_CHART_COLORS[s.id as Difficulty] }))}
+                             />
+                         ), 'md:col-span-2')}
+                         {renderChartCard('Most Played Categories', <RankedBars data={topCategories(categorised, 6)} />)}
+                         {renderChartCard('Streak History', <StreakTimeline runs={streakRuns.slice(0, 8)} />)}
+                     </div>
+                 </section>
+
+                 <section>
+                     <div className="flex items-center gap-3 mb-6">
+                         <div className="bg-indigo-100 text-indigo-600 p-2 rounded-xl">
+                             <History size={24} />
+                         </div>
+                         <div>
+                             <h2 className="text-2xl font-bold text-slate-800">Recent Completions</h2>
+                             <p className="text-slate-500 text-sm">Every puzzle you've finished, newest first.</p>
+                         </div>
+                     </div>
+                     <CompletionHistory
+                       history={completionHistory}
+                       onSelectPuzzle={(id) => {
+                           const puzzle = galleryPuzzles.find(p => p.id === id);
+                           if (puzzle) startPuzzle(puzzle);
+                       }}
+                     />
+                 </section>
+             </div>
+          </main>
+        </div>
+      );
+  };
+
+  const renderTrophies = () => {
+      const achievements = userStats.achievements ?? {};
+      const context = { history: completionHistory, completedIds: completedPuzzleIds, categories: CATEGORY_PUZZLE_IDS };
+      const unlockedCount = ACHIEVEMENTS.filter(a => achievements[a.id]).length;
+
+      return (
+        <div className="flex flex-col h-[100dvh] bg-slate-50">
+          <header className="flex-shrink-0 px-6 py-4 bg-white/80 backdrop-blur-md border-b border-slate-200 flex items-center justify-between sticky top-0 z-20">
+              <div className="flex items-center gap-4">
+                <button onClick={() => navigateToView('home')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500 transition-colors">
+                  <ArrowLeft size={24} />
+                </button>
+                <h2 className="text-xl font-serif font-bold text-slate-800">Trophy Case</h2>
+              </div>
+              <div className="flex items-center gap-2 bg-amber-50 px-4 py-2 rounded-xl text-amber-700 font-bold">
+                  <Medal size={18} />
+                  <span>{unlockedCount} / {ACHIEVEMENTS.length}</span>
+              </div>
+          </header>
+
+          <main className="flex-1 overflow-y-auto p-4 md:p-8 pb-32 custom-scrollbar">
+             <div className="max-w-4xl mx-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                 {ACHIEVEMENTS.map(a => {
+                     const unlockedAt = achievements[a.id];
+                     const { current, target } = getAchievementProgress(a, context);
+                     const percentage = Math.min(100, (current / target) * 100);
+
+                     return (
+                         <div key={a.id} className={`bg-white rounded-[2rem] p-6 shadow-sm border flex flex-col items-center text-center ${unlockedAt ? 'border-amber-100' : 'border-slate-100'}`}>
+                             <AchievementBadge achievement={a} unlocked={!!unlockedAt} />
+                             <h3 className={`mt-4 text-lg font-bold ${unlockedAt ? 'text-slate-800' : 'text-slate-500'}`}>{a.title}</h3>
+                             <p className="text-sm text-slate-500 mt-1 mb-4 flex-1">{a.description}</p>
+                             {unlockedAt ? (
+                                 <span className="text-xs font-bold text-amber-600 uppercase tracking-wider">
+                                     Unlocked {new Date(unlockedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}
+                                 </span>
+                             ) : (
+                                 <div className="w-full">
+                                     <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                                         <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${percentage}%` }} />
+                                     </div>
+                                     {target > 1 && <div className="mt-1 text-xs font-mono text-slate-400">{Math.min(current, target)} / {target}</div>}
+                                 </div>
+                             )}
+                         </div>
+                     );
+                 })}
+             </div>
+          </main>
+        </div>
+      );
+  };
+
   const renderCreate = () => (
     <div className="flex flex-col h-[100dvh] bg-slate-50">
       <header className="flex-shrink-0 px-6 py-4 bg-white/80 backdrop-blur-md border-b border-slate-200 flex items-center gap-4 sticky top-0 z-20">
@@ -1717,6 +1945,7 @@ const App: React.FC = () => {
             setSelectedPuzzle(null);
         }}
         onComplete={handlePuzzleComplete}
+        categoryPuzzleIds={selectedPuzzle.category ? CATEGORY_PUZZLE_IDS[selectedPuzzle.category] : undefined}
       />
     );
   }
@@ -1742,6 +1971,8 @@ const App: React.FC = () => {
       {currentView === 'gallery' && renderGallery()}
       {currentView === 'create' && renderCreate()}
       {currentView === 'quests' && renderQuests()}
+      {currentView === 'stats' && renderStats()}
+      {currentView === 'trophies' && renderTrophies()}
       
       {showHowToPlay && renderHowToPlay()}
       {showUploadModal && renderUploadModal()}
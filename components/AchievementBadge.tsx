@@ -0,0 +1,37 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { AchievementDefinition, AchievementTier } from '../types';
+
+// Medal rims per tier: outer ring, inner face
+const TIER_STYLES: Record<AchievementTier, { ring: string; face: string }> = {
+    bronze: { ring: 'from-amber-600 to-orange-800', face: 'from-amber-100 to-orange-200' },
+    silver: { ring: 'from-slate-300 to-slate-500', face: 'from-white to-slate-200' },
+    gold: { ring: 'from-yellow-300 to-amber-500', face: 'from-yellow-50 to-amber-200' }
+};
+
+interface AchievementBadgeProps {
+    achievement: AchievementDefinition;
+    unlocked: boolean;
+    size?: 'sm' | 'lg';
+}
+
+export const AchievementBadge: React.FC<AchievementBadgeProps> = ({ achievement, unlocked, size = 'lg' }) => {
+    const tier = TIER_STYLES[achievement.tier];
+    const outer = size === 'lg' ? 'w-20 h-20 p-1.5' : 'w-10 h-10 p-1';
+    const emoji = size === 'lg' ? 'text-3xl' : 'text-lg';
+
+    return (
+        <div
+            className={`${outer} rounded-full bg-gradient-to-br shadow-md flex-shrink-0 ${unlocked ? tier.ring : 'from-slate-200 to-slate-300'}`}
+            aria-hidden="true"
+        >
+            <div className={`w-full h-full rounded-full bg-gradient-to-br flex items-center justify-center shadow-inner ${unlocked ? tier.face : 'from-slate-100 to-slate-200'}`}>
+                {unlocked ? (
+                    <span className={emoji}>{achievement.badge}</span>
+                ) : (
+                    <Lock size={size === 'lg' ? 24 : 14} className="text-slate-400" />
+                )}
+            </div>
+        </div>
+    );
+};
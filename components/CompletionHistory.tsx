@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Zap, Lightbulb } from 'lucide-react';
+import { CompletionHistoryEntry, Difficulty, PuzzleStyle } from '../types';
+import { DIFFICULTY_SETTINGS, PUZZLE_STYLES } from '../constants';
+import { formatTime } from '../services/statsService';
+import { formatLastPlayed } from '../services/historyService';
+
+interface CompletionHistoryProps {
+    history: CompletionHistoryEntry[];
+    onSelectPuzzle?: (puzzleId: string) => void;
+}
+
+// How many rows show before "Show more"
+const PAGE_SIZE = 25;
+
+export const CompletionHistory: React.FC<CompletionHistoryProps> = ({ history, onSelectPuzzle }) => {
+    const [difficulty, setDifficulty] = useState<Difficulty | ''>('');
+    const [style, setStyle] = useState<PuzzleStyle | ''>('');
+    const [search, setSearch] = useState('');
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+    const filtered = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return history.filter(e =>
+            (!difficulty || e.difficulty === difficulty)
+            && (!style || e.style === style)
+            && (!term || (e.puzzleTitle ?? e.puzzleId).toLowerCase().includes(term))
+        );
+    }, [history, difficulty, style, search]);
+
+    const selectClass = "px-3 py-2 rounded-xl bg-white border border-slate-200 text-sm font-medium text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+    const styleLabel = (id: PuzzleStyle) => PUZZLE_STYLES.find(s => s.id === id)?.label ?? id;
+
+    return (
+        <div>
+            <div className="flex flex-wrap gap-2 mb-4">
+                <div className="relative flex-1 min-w-[10rem]">
+                    <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                    <input
+                        value={search}
+                        onChange={e => { setSearch(e.target.value); setVisibleCount(PAGE_SIZE); }}
+                        placeholder="Search puzzles"
+                        className={`${selectClass} w-full pl-9`}
+                    />
+                </div>
+                <select value={difficulty} onChange={e => { setDifficulty(e.target.value as Difficulty | ''); setVisibleCount(PAGE_SIZE); }} className={selectClass} aria-label="Difficulty">
+                    <option value="">All difficulties</option>
+                    {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map(d => (
+                        <option key={d} value={d}>{d.charAt(0).toUpperCase() + d.slice(1)}</option>
+                    ))}
+                </select>
+                <select value={style} onChange={e => { setStyle(e.target.value as PuzzleStyle | ''); setVisibleCount(PAGE_SIZE); }} className={selectClass} aria-label="Style">
+                    <option value="">All styles</option>
+                    {PUZZLE_STYLES.map(s => (
+                        <option key={s.id} value={s.id}>{s.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {filtered.length === 0 ? (
+                <div className="py-12 text-center text-slate-400 bg-white rounded-2xl border border-slate-100">
+                    {history.length === 0 ? 'Finish a puzzle to start your history.' : 'No completions match these filters.'}
+                </div>
+            ) : (
+                <div className="bg-white rounded-2xl border border-slate-100 divide-y divide-slate-100 overflow-hidden">
+                    {filtered.slice(0, visibleCount).map(e => (
+                        <button
+                            key={`${e.puzzleId}@${e.completedAt}`}
+                            onClick={() => onSelectPuzzle?.(e.puzzleId)}
+                            disabled={!onSelectPuzzle}
+                            className="w-full flex items-center gap-4 px-4 py-3 text-left hover:bg-slate-50 transition-colors disabled:hover:bg-transparent"
+                        >
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-slate-800 truncate">{e.puzzleTitle ?? e.puzzleId}</div>
+                                <div className="text-xs text-slate-400 flex items-center gap-1.5">
+                                    <span className="capitalize">{e.difficulty}</span> · {styleLabel(e.style)} · {formatLastPlayed(e.completedAt)}
+                                    {e.isChaosMode && <Zap size={12} className="text-indigo-500" aria-label="Chaos mode" />}
+                                </div>
+                            </div>
+                            <div className="hidden sm:flex items-center gap-1 text-xs text-slate-400" title="Hints used">
+                                <Lightbulb size={12} /> {e.hintsUsed}
+                            </div>
+                            <div className="hidden sm:block text-xs text-slate-400 w-16 text-right">{e.moveCount} moves</div>
+                            <div className="font-mono font-bold text-slate-700 w-14 text-right">{formatTime(e.duration)}</div>
+                            <div className="font-mono font-bold text-indigo-600 w-20 text-right">{e.score.toLocaleString()}</div>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {filtered.length > visibleCount && (
+                <button
+                    onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                    className="w-full mt-4 py-3 rounded-2xl bg-white border border-slate-200 text-slate-600 font-bold hover:bg-slate-50 transition-colors"
+                >
+                    Show more ({filtered.length - visibleCount} left)
+                </button>
+            )}
+        </div>
+    );
+};
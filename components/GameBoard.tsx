@@ -1,27 +1,55 @@
-import React, { useState, useEffect, useRef, memo, useCallback, useLayoutEffect } from 'react';
-import { X, Image as ImageIcon, Eye, Lightbulb, RotateCcw, Settings2, Home, Check } from 'lucide-react';
-import { PuzzleConfig, Piece, Difficulty, PuzzleStyle, SavedGameState } from '../types';
-import { createPuzzlePieces } from '../utils/puzzleUtils';
-import { DIFFICULTY_SETTINGS } from '../constants';
+import React, { useState, useEffect, useRef, memo, useCallback, useLayoutEffect, useMemo } from 'react';
+import { X, Image as ImageIcon, Eye, Lightbulb, RotateCcw, Settings2, Home, Check, Undo2, Redo2, Play, Pause, Film, ZoomIn, ZoomOut, Maximize, PanelBottom, ArrowDownWideNarrow, Trophy } from 'lucide-react';
+import { PuzzleConfig, Piece, Difficulty, PuzzleStyle, PlacementMode, SavedGameState, MoveHistory, ScoreBreakdown, ReplayEvent, GameReplay, GridSize, HintType, AssistSettings, PuzzleBests, AchievementDefinition, CompletionHistoryEntry } from '../types';
+import { createPuzzlePieces, generateSeed, migrateSavedPieces, getGridSize, getSlots, positionForSlot, findNearestSlot, SCATTER_MARGIN } from '../utils/puzzleUtils';
+import { resolveGridDrop, resolveFreeDrop, resolveRotation, resolveAutoPlace, getGroupMembers, isPuzzleComplete, DropResult } from '../utils/placement';
+import { createHistory, recordMove, undoMove, redoMove } from '../utils/moveHistory';
+import { createReplayState, applyReplayEvent, roundCoord, ReplayState, HINT_DURATION } from '../utils/replay';
+import { pickHintPiece, getLooseEdgePieces } from '../utils/hints';
+import { getPieceTheme, DEFAULT_PIECE_THEME, PieceTheme } from '../utils/pieceTheme';
+import { ARROW_DIRECTIONS, getCellPosition, getFirstSlot, findSlotInDirection, describePiece, findPieceAtSlot } from '../utils/keyboardNav';
+import { applyChaos } from '../utils/chaos';
+import { analyzePieceColors, loadImageForAnalysis, COLOR_FAMILIES, PieceColor } from '../utils/colorAnalysis';
+import { getEdgeKind, getTrayPieces, filterTrayPieces, DEFAULT_TRAY_FILTER, EdgeKind, TrayFilter, TrayShapeFilter } from '../utils/pieceTray';
+import { DIFFICULTY_SETTINGS, PUZZLE_STYLES, PLACEMENT_MODES, CHAOS_SETTINGS, PIECE_COUNT_OPTIONS, CANVAS_RENDER_THRESHOLD, HINT_TYPES, getHintCost, getHintBudget, getNominalPieceCount } from '../constants';
 import { updateUserStats, formatTime } from '../services/statsService';
+import { loadHistory, recordCompletion, getPuzzleBests, formatLastPlayed } from '../services/historyService';
 import { updateQuestProgress } from '../services/questService';
+import { unlockAchievements } from '../services/achievementService';
+import { loadCompletedIds } from '../services/profileService';
+import { loadBestReplay, saveReplayIfBest } from '../services/replayService';
+import { loadAssistSettings, saveAssistSettings } from '../services/assistService';
+import { submitCompletion, requestGameStart, VerificationStatus } from '../services/completionService';
+import { profileKey } from '../services/accountService';
+import { LeaderboardPanel } from './LeaderboardPanel';
+import { AchievementBadge } from './AchievementBadge';
+import PuzzleCanvasLayer, { CanvasLayerHandle } from './PuzzleCanvasLayer';
 
 // --- Sub-Components for Performance Isolation ---
 
 // 1. Timer Component (Memoized)
-const GameTimer = memo(({ initialTime, onTimeUpdate }: { initialTime: number, onTimeUpdate: (t: number) => void }) => {
-  const [time, setTime] = useState(initialTime);
-  
+// Seconds since the game started, read off the wall clock
+const getElapsedSeconds = (startedAt: number) => Math.max(0, Math.floor((Date.now() - startedAt) / 1000));
+
+// Each tick reads the clock rather than adding a second, so late or throttled ticks (background
+// tabs, busy renders) never lose time
+const GameTimer = memo(({ startedAt, isRunning, onTimeUpdate }: { startedAt: number, isRunning: boolean, onTimeUpdate: (t: number) => void }) => {
+  const [time, setTime] = useState(() => getElapsedSeconds(startedAt));
+  // The parent passes a new callback every render; a ref keeps that from restarting the interval
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTime(t => {
-        const next = t + 1;
-        onTimeUpdate(next); // Sync back to parent ref only
-        return next;
-      });
-    }, 1000);
+    if (!isRunning) return;
+    const tick = () => {
+      const next = getElapsedSeconds(startedAt);
+      setTime(next);
+      onTimeUpdateRef.current(next); // Sync back to parent ref only
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
     return () => clearInterval(timer);
-  }, [onTimeUpdate]);
+  }, [startedAt, isRunning]);
 
   const mins = Math.floor(time / 60);
   const secs = time % 60;
@@ -41,16 +69,28 @@ const PuzzlePieceLayer = memo(({
     pieceRefs, 
     onPointerDown, 
     onDoubleClick,
+    onContextMenu,
     hintPieceId, 
-    showPreview 
+    outlines,
+    showPreview,
+    animateMoves = false,
+    pieceLabel,
+    theme = DEFAULT_PIECE_THEME,
+    showNumbers = false
 }: {
     pieces: Piece[];
     puzzleSrc: string;
     pieceRefs: React.MutableRefObject<Record<number, HTMLDivElement | null>>;
     onPointerDown: (e: React.PointerEvent, p: Piece) => void;
     onDoubleClick: (e: React.MouseEvent, p: Piece) => void;
+    onContextMenu: (e: React.MouseEvent, p: Piece) => void;
     hintPieceId: number | null;
+    outlines?: Record<number, string>; // Extra outline colour per piece (hint highlights, lock flashes)
     showPreview: boolean;
+    animateMoves?: boolean; // Glide loose pieces between positions (replays)
+    pieceLabel?: (p: Piece) => string; // Screen reader description
+    theme?: PieceTheme;
+    showNumbers?: boolean; // Each piece's correct index on top of it
 }) => {
     return (
         <>
@@ -64,28 +104,35 @@ const PuzzlePieceLayer = memo(({
                 const scale = isHintTarget ? 'scale(1.1)' : (piece.isLocked ? 'scale(1.01)' : 'scale(1)');
                 
                 // Border Logic
-                // If locked, no border (seamless)
-                let borderColor = 'rgba(255,255,255,0.8)'; // Default loose
-                let borderWidth = '1px';
+                // If locked, no border (seamless) unless something outlines it
+                const outline = outlines?.[piece.id];
+                let borderColor = theme.looseBorder;
+                let borderWidth = theme.looseBorderWidth;
 
                 if (isHintTarget) {
-                    borderColor = '#facc15'; // Yellow
-                    borderWidth = '3px';
-                }
-
-                if (piece.isLocked) {
+                    borderColor = theme.hint;
+                    borderWidth = 3;
+                } else if (outline) {
+                    borderColor = outline;
+                    borderWidth = 2;
+                } else if (piece.isLocked) {
                     borderColor = 'transparent';
-                    borderWidth = '0';
+                    borderWidth = 0;
                 }
 
                 return (
                 <div
                     key={piece.id}
+                    id={`piece-${piece.id}`}
                     ref={(el) => { pieceRefs.current[piece.id] = el; }}
+                    role="button"
+                    aria-roledescription="puzzle piece"
+                    aria-label={pieceLabel ? pieceLabel(piece) : undefined}
+                    aria-disabled={piece.isLocked}
                     draggable={false}
                     onPointerDown={(e) => onPointerDown(e, piece)}
                     onDoubleClick={(e) => onDoubleClick(e, piece)}
-                    onContextMenu={(e) => { e.preventDefault(); e.stopPropagation(); }}
+                    onContextMenu={(e) => onContextMenu(e, piece)}
                     className={`absolute cursor-grab active:cursor-grabbing touch-none select-none ${
                         piece.isLocked ? 'z-0 transition-all duration-500 ease-out' : 'z-10'
                     } ${isHintTarget ? 'z-50' : ''}`}
@@ -101,11 +148,12 @@ const PuzzlePieceLayer = memo(({
                         imageRendering: piece.isLocked ? 'pixelated' : 'auto', 
                         willChange: piece.isLocked ? 'unset' : 'transform',
                         WebkitTouchCallout: 'none',
+                        ...(animateMoves && !piece.isLocked ? { transition: 'left 0.3s ease-out, top 0.3s ease-out, transform 0.25s ease-out' } : {}),
                     }}
                 >
                     {/* Visual highlighter for hint */}
                     {isHintTarget && (
-                        <div className="absolute -inset-2 border-4 border-yellow-400 rounded-xl animate-ping opacity-75 pointer-events-none"></div>
+                        <div className="absolute -inset-2 border-4 rounded-xl animate-ping opacity-75 pointer-events-none" style={{ borderColor: theme.hint }}></div>
                     )}
 
                     {piece.shape === 'classic' ? (
@@ -117,8 +165,15 @@ const PuzzlePieceLayer = memo(({
                                 backgroundImage: `url(${puzzleSrc})`,
                                 backgroundSize: `${(100 * 100 / piece.width)}% ${(100 * 100 / piece.height)}%`,
                                 backgroundPosition: `${piece.bgX}% ${piece.bgY}%`,
-                                border: piece.isLocked ? 'none' : `${borderWidth} solid ${borderColor}`,
-                                boxShadow: piece.isLocked ? 'none' : '0 4px 6px rgba(0,0,0,0.2), 0 1px 3px rgba(0,0,0,0.1)',
+                                border: piece.isLocked ? 'none' : `${borderWidth}px solid ${borderColor}`,
+                                // Locked pieces keep their size, so their outline is drawn inside
+                                boxShadow: piece.isLocked
+                                    ? (borderWidth > 0 ? `inset 0 0 0 ${borderWidth}px ${borderColor}` : 'none')
+                                    : [
+                                        ...(theme.looseShadow ? [`0 0 0 1px ${theme.looseShadow}`] : []),
+                                        '0 4px 6px rgba(0,0,0,0.2)',
+                                        '0 1px 3px rgba(0,0,0,0.1)'
+                                    ].join(', '),
                                 borderRadius: piece.isLocked ? '0' : '2px',
                                 boxSizing: 'border-box',
                                 WebkitTouchCallout: 'none',
@@ -131,10 +186,13 @@ const PuzzlePieceLayer = memo(({
                              )}
                         </div>
                     ) : (
+                        // Mosaic & Jigsaw: image clipped by the piece outline inside its padded viewBox
+                        // preserveAspectRatio="none": board percent units are wider than tall on landscape boards
                         <svg 
                             viewBox={piece.viewBox}
                             width="100%" 
                             height="100%"
+                            preserveAspectRatio="none"
                             style={{ overflow: 'visible', WebkitTouchCallout: 'none', shapeRendering: piece.isLocked ? 'crispEdges' : 'geometricPrecision' }}
                         >
                             <defs>
@@ -151,16 +209,40 @@ const PuzzlePieceLayer = memo(({
                                     clipPath={`url(#clip-${piece.id})`}
                                     style={{ pointerEvents: 'none' }} 
                                 />
+                                {theme.looseShadow && !piece.isLocked && (
+                                    <path 
+                                        d={piece.pathData} 
+                                        fill="none" 
+                                        stroke={theme.looseShadow}
+                                        strokeWidth={borderWidth + 2}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                )}
                                 <path 
                                     d={piece.pathData} 
                                     fill="none" 
                                     stroke={borderColor}
-                                    strokeWidth={piece.isLocked ? "0" : (isHintTarget ? "3" : "0.5")}
+                                    // Half of a path stroke falls outside the piece, unlike a CSS border
+                                    strokeWidth={borderWidth === theme.looseBorderWidth && !theme.looseShadow ? borderWidth / 2 : borderWidth}
                                     vectorEffect="non-scaling-stroke"
                                 />
                             </g>
                         </svg>
                     )}
+
+                    {showNumbers && (
+                        <span
+                            className="absolute -translate-x-1/2 -translate-y-1/2 px-1 rounded text-[10px] font-bold leading-tight pointer-events-none tabular-nums"
+                            style={{
+                                left: `${((piece.homeX - piece.correctX) / piece.width) * 100}%`,
+                                top: `${((piece.homeY - piece.correctY) / piece.height) * 100}%`,
+                                color: theme.numberText,
+                                backgroundColor: theme.numberBackground
+                            }}
+                        >
+                            {piece.id + 1}
+                        </span>
+                    )}
                 </div>
                 );
             })}
@@ -169,30 +251,383 @@ const PuzzlePieceLayer = memo(({
 });
 PuzzlePieceLayer.displayName = 'PuzzlePieceLayer';
 
+// 3. Replay Viewer
+const REPLAY_SPEEDS = [1, 4, 16];
+
+const ReplayViewer = ({ replay, puzzleSrc, aspect, onClose }: { replay: GameReplay; puzzleSrc: string; aspect: number; onClose: () => void }) => {
+    const [board, setBoard] = useState<ReplayState>(() => createReplayState(replay));
+    const [time, setTime] = useState(0);
+    const [speed, setSpeed] = useState(1);
+    const [isPlaying, setIsPlaying] = useState(true);
+    const pieceRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+    // Events are applied incrementally; seeking backwards rebuilds from the start
+    const playbackRef = useRef<{ state: ReplayState; index: number; time: number }>({ state: board, index: 0, time: 0 });
+    const endTime = replay.events.length > 0 ? replay.events[replay.events.length - 1].t : 0;
+
+    const restart = () => {
+        const state = createReplayState(replay);
+        playbackRef.current = { state, index: 0, time: 0 };
+        setBoard(state);
+        setTime(0);
+        setIsPlaying(true);
+    };
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frame: number;
+        let last = performance.now();
+
+        const tick = (now: number) => {
+            const playback = playbackRef.current;
+            playback.time = Math.min(endTime, playback.time + (now - last) * speed);
+            last = now;
+
+            let state = playback.state;
+            while (playback.index < replay.events.length && replay.events[playback.index].t <= playback.time) {
+                state = applyReplayEvent(state, replay.events[playback.index], replay);
+                playback.index++;
+            }
+            if (state !== playback.state) {
+                playback.state = state;
+                setBoard(state);
+            }
+            setTime(playback.time);
+
+            if (playback.time >= endTime) {
+                setIsPlaying(false);
+                return;
+            }
+            frame = requestAnimationFrame(tick);
+        };
+
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, speed, replay]);
+
+    const hintPieceId = board.hintPieceId !== null && time < board.hintUntil ? board.hintPieceId : null;
+    // Free-form replays need the scatter area around the board
+    const scatterScale = replay.placementMode === 'free' ? 1 + (2 * SCATTER_MARGIN) / 100 : 1;
+    const boardWidth = `calc(min(92vw, ${62 * aspect}vh) / ${scatterScale})`;
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-slate-900/95 flex flex-col items-center justify-center gap-6 animate-in fade-in">
+            <div className="flex items-center justify-between w-full max-w-md px-4 text-white">
+                <div>
+                    <h2 className="font-serif text-xl font-semibold">Replay</h2>
+                    <p className="text-xs text-slate-400 capitalize">{replay.difficulty} · {replay.moveCount} moves · {replay.score.toLocaleString()} pts</p>
+                </div>
+                <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-white/10" aria-label="Close Replay">
+                    <X size={22} />
+                </button>
+            </div>
+
+            <div className="relative bg-white rounded-lg shadow-2xl" style={{ width: boardWidth, aspectRatio: `${aspect}` }}>
+                {board.pieces.length > CANVAS_RENDER_THRESHOLD ? (
+                    <PuzzleCanvasLayer
+                        pieces={board.pieces}
+                        puzzleSrc={puzzleSrc}
+                        margin={replay.placementMode === 'free' ? SCATTER_MARGIN : 0}
+                        onPointerDown={() => {}}
+                        onDoubleClick={() => {}}
+                        onContextMenu={(e) => e.preventDefault()}
+                        hintPieceId={hintPieceId ?? board.heldPieceId}
+                        showPreview={false}
+                    />
+                ) : (
+                    <PuzzlePieceLayer
+                        pieces={board.pieces}
+                        puzzleSrc={puzzleSrc}
+                        pieceRefs={pieceRefs}
+                        onPointerDown={() => {}}
+                        onDoubleClick={() => {}}
+                        onContextMenu={(e) => e.preventDefault()}
+                        hintPieceId={hintPieceId ?? board.heldPieceId}
+                        showPreview={false}
+                        animateMoves={speed < 16}
+                    />
+                )}
+            </div>
+
+            <div className="w-full max-w-md px-4 space-y-3">
+                <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-400" style={{ width: `${endTime > 0 ? (time / endTime) * 100 : 100}%` }} />
+                </div>
+                <div className="flex items-center justify-between text-white">
+                    <span className="font-mono text-sm tabular-nums">{formatTime(Math.floor(time / 1000))} / {formatTime(Math.floor(endTime / 1000))}</span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => (time >= endTime ? restart() : setIsPlaying(!isPlaying))}
+                            className="w-10 h-10 flex items-center justify-center rounded-full bg-white/10 hover:bg-white/20"
+                            aria-label={isPlaying ? 'Pause' : 'Play'}
+                        >
+                            {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+                        </button>
+                        {REPLAY_SPEEDS.map(s => (
+                            <button
+                                key={s}
+                                onClick={() => setSpeed(s)}
+                                className={`px-3 py-2 rounded-xl text-sm font-bold transition-colors ${speed === s ? 'bg-indigo-500 text-white' : 'text-slate-300 hover:bg-white/10'}`}
+                            >
+                                {s}×
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// 4. Minimap: the whole board with the part currently on screen outlined
+const Minimap = memo(({ puzzleSrc, aspect, visible, onNavigate }: {
+    puzzleSrc: string;
+    aspect: number;
+    visible: { x: number; y: number; w: number; h: number }; // Board percent
+    onNavigate: (x: number, y: number) => void;
+}) => (
+    <div
+        className="relative w-28 rounded-lg overflow-hidden shadow-lg border-2 border-white bg-white cursor-pointer"
+        style={{ aspectRatio: `${aspect}` }}
+        onPointerDown={(e) => {
+            e.stopPropagation();
+            const rect = e.currentTarget.getBoundingClientRect();
+            onNavigate(((e.clientX - rect.left) / rect.width) * 100, ((e.clientY - rect.top) / rect.height) * 100);
+        }}
+    >
+        <img src={puzzleSrc} className="w-full h-full object-cover opacity-40" alt="" draggable={false} />
+        <div
+            className="absolute border-2 border-indigo-500 bg-indigo-500/10 rounded-sm pointer-events-none"
+            style={{ left: `${visible.x}%`, top: `${visible.y}%`, width: `${visible.w}%`, height: `${visible.h}%` }}
+        />
+    </div>
+));
+Minimap.displayName = 'Minimap';
+
+// 5. Piece Tray: thumbnails of the pieces still to place. Pressing one and pulling it out of
+// the tray picks the piece up; a plain tap points it out on the board.
+const TRAY_THUMB_SIZE = 52;
+const LARGE_TRAY_THUMB_SIZE = 80;
+
+const TrayThumbnail = memo(({ piece, puzzleSrc, aspect, size }: { piece: Piece; puzzleSrc: string; aspect: number; size: number }) => {
+    // Board percent units are stretched by the board's aspect ratio
+    const ratio = (piece.width * aspect) / piece.height;
+    const width = ratio >= 1 ? size : size * ratio;
+    const height = ratio >= 1 ? size / ratio : size;
+
+    return (
+        <div style={{ width, height, transform: `rotate(${piece.rotation}deg)` }}>
+            {piece.shape === 'classic' ? (
+                <div
+                    className="w-full h-full rounded-sm border border-white shadow"
+                    style={{
+                        backgroundImage: `url(${puzzleSrc})`,
+                        backgroundSize: `${(100 * 100 / piece.width)}% ${(100 * 100 / piece.height)}%`,
+                        backgroundPosition: `${piece.bgX}% ${piece.bgY}%`
+                    }}
+                />
+            ) : (
+                <svg viewBox={piece.viewBox} width="100%" height="100%" preserveAspectRatio="none" style={{ overflow: 'visible' }}>
+                    <defs>
+                        <clipPath id={`tray-clip-${piece.id}`}>
+                            <path d={piece.pathData} />
+                        </clipPath>
+                    </defs>
+                    <image href={puzzleSrc} x="0" y="0" width="100" height="100" preserveAspectRatio="none" clipPath={`url(#tray-clip-${piece.id})`} />
+                    <path d={piece.pathData} fill="none" stroke="white" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                </svg>
+            )}
+        </div>
+    );
+});
+TrayThumbnail.displayName = 'TrayThumbnail';
+
+const TRAY_SHAPE_FILTERS: { id: TrayShapeFilter; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'edge', label: 'Edges' },
+    { id: 'corner', label: 'Corners' }
+];
+
+const PieceTray = ({ trayRef, pieces, total, puzzleSrc, aspect, thumbSize = TRAY_THUMB_SIZE, filter, onFilterChange, colors, onItemPointerDown, onPointerMove, onPointerUp, onPointerCancel }: {
+    trayRef: React.RefObject<HTMLDivElement>;
+    pieces: Piece[]; // Already filtered and sorted
+    total: number;   // Pieces in the tray before filtering
+    puzzleSrc: string;
+    aspect: number;
+    thumbSize?: number;
+    filter: TrayFilter;
+    onFilterChange: (filter: TrayFilter) => void;
+    colors: Record<number, PieceColor> | null; // Null while analysing, or when the image can't be read
+    onItemPointerDown: (e: React.PointerEvent, p: Piece) => void;
+    onPointerMove: (e: React.PointerEvent) => void;
+    onPointerUp: (e: React.PointerEvent) => void;
+    onPointerCancel: (e: React.PointerEvent) => void;
+}) => {
+    const families = colors
+        ? COLOR_FAMILIES.filter(f => Object.values(colors).some(c => c.family === f.id))
+        : [];
+
+    return (
+        <div ref={trayRef} className="mx-3 mb-2 bg-white/90 backdrop-blur-xl rounded-2xl shadow-lg border border-white/40 ring-1 ring-black/5 z-30">
+            <div className="flex items-center gap-2 px-3 pt-2 overflow-x-auto">
+                {TRAY_SHAPE_FILTERS.map(f => (
+                    <button
+                        key={f.id}
+                        onClick={() => onFilterChange({ ...filter, shape: f.id })}
+                        className={`px-3 py-1 rounded-lg text-xs font-bold shrink-0 transition-colors ${filter.shape === f.id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                    >
+                        {f.label}
+                    </button>
+                ))}
+                {families.length > 0 && <div className="w-px h-5 bg-slate-200 shrink-0"></div>}
+                {families.map(f => (
+                    <button
+                        key={f.id}
+                        onClick={() => onFilterChange({ ...filter, color: filter.color === f.id ? null : f.id })}
+                        className={`w-6 h-6 rounded-full shrink-0 border border-slate-300 transition-transform ${filter.color === f.id ? 'ring-2 ring-indigo-500 ring-offset-1 scale-110' : ''}`}
+                        style={{ backgroundColor: f.swatch }}
+                        aria-label={`Only ${f.id} pieces`}
+                        aria-pressed={filter.color === f.id}
+                    />
+                ))}
+                {colors && (
+                    <button
+                        onClick={() => onFilterChange({ ...filter, sortByHue: !filter.sortByHue })}
+                        className={`ml-auto flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-bold shrink-0 transition-colors ${filter.sortByHue ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:bg-slate-100'}`}
+                        aria-pressed={filter.sortByHue}
+                    >
+                        <ArrowDownWideNarrow size={14} /> Hue
+                    </button>
+                )}
+                <span className={`${colors ? '' : 'ml-auto'} text-[10px] font-bold text-slate-400 shrink-0 tabular-nums`}>{pieces.length}/{total}</span>
+            </div>
+            <div
+                className="flex items-center gap-3 px-3 py-2 overflow-x-auto"
+                style={{ height: thumbSize + 24, touchAction: 'pan-x' }}
+                onPointerMove={onPointerMove}
+                onPointerUp={onPointerUp}
+                onPointerCancel={onPointerCancel}
+            >
+                {pieces.length === 0 ? (
+                    <span className="text-xs text-slate-400 mx-auto">No pieces match</span>
+                ) : pieces.map(piece => (
+                    <div
+                        key={piece.id}
+                        className="shrink-0 flex items-center justify-center cursor-grab select-none"
+                        style={{ width: thumbSize, height: thumbSize, contentVisibility: 'auto' }}
+                        onPointerDown={(e) => onItemPointerDown(e, piece)}
+                    >
+                        <TrayThumbnail piece={piece} puzzleSrc={puzzleSrc} aspect={aspect} size={thumbSize} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 // --- Main Component ---
 
+const MAX_ZOOM = 4;
+const LOCK_FLASH_DURATION = 800;
+
+const VERIFICATION_LABELS: Record<VerificationStatus, { label: string; className: string }> = {
+  pending: { label: 'Verifying score…', className: 'text-slate-400' },
+  verified: { label: 'Score verified', className: 'text-emerald-600' },
+  rejected: { label: 'Score not verified', className: 'text-rose-500' },
+  offline: { label: 'Verification unavailable offline', className: 'text-slate-400' }
+};
+
+// Display-only, so unlike the game settings they apply without a restart
+const ASSIST_OPTIONS: { id: keyof AssistSettings; label: string }[] = [
+  { id: 'highContrast', label: 'High contrast outlines' },
+  { id: 'colorBlindPalette', label: 'Colour-blind safe colours' },
+  { id: 'showNumbers', label: 'Piece numbers' },
+  { id: 'showCoordinates', label: 'Board coordinates' },
+  { id: 'largePieces', label: 'Large pieces' }
+];
+
 interface GameBoardProps {
   puzzle: PuzzleConfig;
   onExit: () => void;
   onComplete?: () => void;
+  // Every puzzle in this one's category, for the "complete a whole category" achievement
+  categoryPuzzleIds?: string[];
 }
 
-const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) => {
+const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete, categoryPuzzleIds }) => {
   const [pieces, setPieces] = useState<Piece[]>([]);
   const [difficulty, setDifficulty] = useState<Difficulty>(puzzle.difficulty || 'normal');
   const [style, setStyle] = useState<PuzzleStyle>('classic');
+  const [seed, setSeed] = useState<number>(0);
+  const [placementMode, setPlacementMode] = useState<PlacementMode>('grid');
+  const [rotationMode, setRotationMode] = useState(false);
+  const [isChaosMode, setIsChaosMode] = useState(false);
+  const [grid, setGrid] = useState<GridSize>({ rows: 5, cols: 5 });
+  const [pieceCount, setPieceCount] = useState<number | null>(null);
+  // Width / height of the source image; the board takes the same shape
+  const [imageAspect, setImageAspect] = useState(1);
+  const imageAspectRef = useRef(1);
+  const [history, setHistory] = useState<MoveHistory>(createHistory);
   const [isComplete, setIsComplete] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [score, setScore] = useState(0);
+  const [scoreBreakdown, setScoreBreakdown] = useState<ScoreBreakdown | null>(null);
+  const [moveCount, setMoveCount] = useState(0);
+  const [lastReplay, setLastReplay] = useState<GameReplay | null>(null);
+  const [bestReplay, setBestReplay] = useState<GameReplay | null>(null);
+  const [viewingReplay, setViewingReplay] = useState<GameReplay | null>(null);
   const [isNewRecord, setIsNewRecord] = useState(false);
+  // This puzzle's bests from before the game just finished, to compare against
+  const [previousBests, setPreviousBests] = useState<PuzzleBests | null>(null);
+  const [newAchievements, setNewAchievements] = useState<AchievementDefinition[]>([]);
+  // Server check of the finished game; null when there is no move log to send
+  const [verification, setVerification] = useState<VerificationStatus | null>(null);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
   
+  // Zoom and pan of the board (pan in screen pixels, relative to the centre of the game area)
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const panGestureRef = useRef<{ pointers: Map<number, { x: number, y: number }> }>({ pointers: new Map() });
+
+  // Keyboard play: a cursor over the slots and the piece picked up with Enter
+  const [cursorSlotId, setCursorSlotId] = useState<number | null>(null);
+  const [keyboardHeldId, setKeyboardHeldId] = useState<number | null>(null);
+  const [isBoardFocused, setIsBoardFocused] = useState(false);
+  // Screen reader announcements; the id makes a repeated message be read again
+  const [announcement, setAnnouncement] = useState({ text: '', id: 0 });
+  const announce = (text: string) => setAnnouncement(a => ({ text, id: a.id + 1 }));
+
+  // Piece tray
+  const [showTray, setShowTray] = useState(false);
+  const [trayFilter, setTrayFilter] = useState<TrayFilter>(DEFAULT_TRAY_FILTER);
+  const [pieceColors, setPieceColors] = useState<Record<number, PieceColor> | null>(null);
+  const [locatedPieceId, setLocatedPieceId] = useState<number | null>(null);
+  const trayRef = useRef<HTMLDivElement>(null);
+  // A press on a tray thumbnail that hasn't turned into a drag (or a tap) yet
+  const trayPressRef = useRef<{ piece: Piece; pointerId: number; x: number; y: number } | null>(null);
+
+  // Assist display modes, kept across games
+  const [assist, setAssist] = useState<AssistSettings>(loadAssistSettings);
+  const theme = useMemo(() => getPieceTheme(assist), [assist]);
+  // Pieces that just locked in, outlined briefly
+  const [lockFlashIds, setLockFlashIds] = useState<number[]>([]);
+  const lockFlashTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
   const [boardDimensions, setBoardDimensions] = useState<{width: string, height: string}>({ width: 'min(92vw, 62vh)', height: 'min(92vw, 62vh)' });
 
   // Hint State
   const [hintsRemaining, setHintsRemaining] = useState(0);
-  const [hintPieceId, setHintPieceId] = useState<number | null>(null);
+  const [activeHint, setActiveHint] = useState<{ type: HintType; pieceId: number | null; edgeIds: number[] } | null>(null);
+  // A 'findPiece' hint waiting for the player to pick the empty spot it should fill
+  const [isPickingGap, setIsPickingGap] = useState(false);
+  const [showHintMenu, setShowHintMenu] = useState(false);
+  // Hints spent this game; a ref so a hint that finishes the puzzle is already counted
+  const hintsUsedRef = useRef<HintType[]>([]);
+  const hintPieceId = activeHint?.type === 'locate' || activeHint?.type === 'findPiece' ? activeHint.pieceId : null;
 
   // Time tracking via ref to avoid re-renders
   const elapsedTimeRef = useRef(0);
@@ -211,10 +646,14 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
     currentX: number;
     currentY: number;
     visualYOffset: number; 
-    groupCache: { id: number; el: HTMLDivElement; rotation: number }[];
+    groupCache: { id: number; el: HTMLDivElement | null; rotation: number }[]; // el is null on the canvas renderer
     startPositions: Record<number, {x: number, y: number}>;
     startTime: number;
     initialPieces: Piece[];
+    pointerId: number | null;
+    hasRotated: boolean; // Turned mid-drag, so a release without movement is not a tap
+    twist: { pointerId: number; x: number; y: number; angle: number } | null;
+    fromTray: boolean; // Pulled out of the piece tray; releasing it over the tray puts it back
   }>({
     active: false,
     isSticky: false,
@@ -227,14 +666,58 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
     groupCache: [],
     startPositions: {},
     startTime: 0,
-    initialPieces: []
+    initialPieces: [],
+    pointerId: null,
+    hasRotated: false,
+    twist: null,
+    fromTray: false
   });
 
   const rafRef = useRef<number | null>(null);
+  const canvasLayerRef = useRef<CanvasLayerHandle>(null);
+  // Large puzzles are drawn on a canvas instead of one DOM node per piece
+  const useCanvas = pieces.length > CANVAS_RENDER_THRESHOLD;
+  // Last piece picked up, the target of the R key
+  const lastPieceIdRef = useRef<number | null>(null);
+  // Chaos ticks so far; each tick's randomness is seeded from this number
+  const chaosTickRef = useRef(0);
+
+  // Replay timeline. Saves from before recording started can't be replayed from the beginning.
+  const replayRef = useRef<{ events: ReplayEvent[]; startedAt: number; isRecording: boolean }>({
+    events: [],
+    startedAt: Date.now(),
+    isRecording: false
+  });
+
+  // The server's receipt for this game's start, which verifying the finished game needs
+  const startTokenRef = useRef<string | null>(null);
+
+  const recordEvent = (event: Omit<ReplayEvent, 't'>) => {
+    const replay = replayRef.current;
+    if (!replay.isRecording) return;
+    // Never before the last event, so the log stays in order even if the clock was set back
+    const lastAt = replay.events.length > 0 ? replay.events[replay.events.length - 1].t : 0;
+    replay.events.push({ t: Math.max(lastAt, Date.now() - replay.startedAt), ...event });
+  };
 
-  // Initialize Game
+  // Initialize Game (once the image's real size is known)
   useEffect(() => {
-    const saveKey = `mosaic_save_${puzzle.id}`;
+    let cancelled = false;
+    const img = new Image();
+    const start = (aspect: number) => {
+        if (cancelled) return;
+        imageAspectRef.current = aspect;
+        setImageAspect(aspect);
+        loadOrStartGame();
+    };
+    img.onload = () => start(img.naturalWidth > 0 && img.naturalHeight > 0 ? img.naturalWidth / img.naturalHeight : 1);
+    img.onerror = () => start(1);
+    img.src = puzzle.src;
+    return () => { cancelled = true; };
+  }, [puzzle.id]);
+
+  const loadOrStartGame = () => {
+    const saveKey = profileKey(`save_${puzzle.id}`);
     const savedDataStr = localStorage.getItem(saveKey);
     let loadedFromSave = false;
     
@@ -244,9 +727,29 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
             if (savedGame.puzzleId === puzzle.id && Array.isArray(savedGame.pieces)) {
                 setDifficulty(savedGame.difficulty);
                 setStyle(savedGame.style);
-                setPieces(savedGame.pieces);
+                // Saves from before custom grids always used the difficulty preset
+                setGrid(savedGame.grid ?? { rows: DIFFICULTY_SETTINGS[savedGame.difficulty].rows, cols: DIFFICULTY_SETTINGS[savedGame.difficulty].cols });
+                setPieceCount(savedGame.pieceCount ?? null);
+                setSeed(savedGame.seed ?? 0);
+                setPlacementMode(savedGame.placementMode ?? 'grid');
+                setRotationMode(savedGame.rotationMode ?? false);
+                setIsChaosMode(savedGame.isChaosMode ?? false);
+                chaosTickRef.current = savedGame.chaosTick ?? 0;
+                setHistory(savedGame.history ?? createHistory());
+                setMoveCount(savedGame.moveCount ?? 0);
+                // The saved time is whole seconds, so it can trail the last logged move; carry on from whichever is later
+                const events = savedGame.replayEvents ?? [];
+                const resumeAt = Math.max(savedGame.elapsedTime * 1000, events.length > 0 ? events[events.length - 1].t : 0);
+                replayRef.current = {
+                    events,
+                    startedAt: Date.now() - resumeAt,
+                    isRecording: Array.isArray(savedGame.replayEvents) && !!savedGame.seed
+                };
+                startTokenRef.current = savedGame.startToken ?? null;
+                setPieces(migrateSavedPieces(savedGame.pieces));
                 elapsedTimeRef.current = savedGame.elapsedTime;
                 setHintsRemaining(savedGame.hintsRemaining);
+                hintsUsedRef.current = savedGame.hintsUsed ?? [];
                 setIsLoaded(true);
                 loadedFromSave = true;
             }
@@ -258,21 +761,30 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
     if (!loadedFromSave) {
         initializeNewGame(puzzle.difficulty || 'normal', 'classic');
     }
-  }, [puzzle.id]);
+  };
 
   // Pixel Perfect Resizing
   useLayoutEffect(() => {
     const calculateSize = () => {
-        const settings = DIFFICULTY_SETTINGS[difficulty];
         const vw = window.innerWidth;
         const vh = window.innerHeight;
-        const maxSide = Math.min(vw * 0.92, vh * 0.62);
-        const cellSize = Math.floor(maxSide / settings.cols);
-        const exactSize = cellSize * settings.cols;
+        // Free-form mode keeps room around the board for the scatter area
+        const scatterScale = placementMode === 'free' ? 1 + (2 * SCATTER_MARGIN) / 100 : 1;
+        // Large pieces mode gives the board nearly the whole screen
+        const widthShare = assist.largePieces ? 0.99 : placementMode === 'free' ? 0.96 : 0.92;
+        const heightShare = assist.largePieces ? 0.8 : placementMode === 'free' ? 0.7 : 0.62;
+        const maxWidth = (vw * widthShare) / scatterScale;
+        const maxHeight = (vh * heightShare) / scatterScale;
+
+        // Largest board with the image's aspect ratio, snapped to whole-pixel cells
+        const width = Math.min(maxWidth, maxHeight * imageAspect);
+        const height = width / imageAspect;
+        const exactWidth = Math.max(1, Math.floor(width / grid.cols)) * grid.cols;
+        const exactHeight = Math.max(1, Math.floor(height / grid.rows)) * grid.rows;
         
         setBoardDimensions({
-            width: `${exactSize}px`,
-            height: `${exactSize}px`
+            width: `${exactWidth}px`,
+            height: `${exactHeight}px`
         });
     };
 
@@ -280,19 +792,64 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
     const handleResize = () => requestAnimationFrame(calculateSize);
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
-  }, [difficulty]);
-
-  const initializeNewGame = (diff: Difficulty, st: PuzzleStyle) => {
-    const newPieces = createPuzzlePieces(diff, st);
+  }, [grid, imageAspect, placementMode, assist.largePieces]);
+
+  // Settings not given keep their current value
+  const initializeNewGame = (
+    diff: Difficulty,
+    st: PuzzleStyle,
+    changes: { placementMode?: PlacementMode; rotate?: boolean; chaos?: boolean; pieceCount?: number | null } = {}
+  ) => {
+    const {
+        placementMode: mode = placementMode,
+        rotate = rotationMode,
+        chaos = isChaosMode,
+        pieceCount: count = pieceCount
+    } = changes;
+    const settings = DIFFICULTY_SETTINGS[diff];
+    const newGrid = getGridSize(count ?? settings.rows * settings.cols, imageAspectRef.current);
+
+    // Puzzles with a fixed seed (daily, shared) always get the same layout
+    const newSeed = puzzle.seed ?? generateSeed();
+    const newPieces = createPuzzlePieces(diff, st, { seed: newSeed, grid: newGrid, placementMode: mode, rotate });
     setPieces(newPieces);
+    setSeed(newSeed);
+    setGrid(newGrid);
+    setPieceCount(count);
+    setView({ zoom: 1, x: 0, y: 0 });
+    setPlacementMode(mode);
+    setRotationMode(rotate);
+    setIsChaosMode(chaos);
+    chaosTickRef.current = 0;
+    setHistory(createHistory());
+    setMoveCount(0);
+    setScoreBreakdown(null);
+    setLastReplay(null);
+    setVerification(null);
+    setShowLeaderboard(false);
+    setPreviousBests(null);
+    setNewAchievements([]);
+    setBestReplay(null);
+    const replay: typeof replayRef.current = { events: [], startedAt: Date.now(), isRecording: true };
+    replayRef.current = replay;
+    startTokenRef.current = null;
+    requestGameStart(puzzle.id, newSeed).then(token => {
+        // Another game may have been started in the meantime
+        if (replayRef.current === replay) startTokenRef.current = token;
+    });
     setDifficulty(diff);
     setStyle(st);
     setIsComplete(false);
     elapsedTimeRef.current = 0;
-    setHintsRemaining(DIFFICULTY_SETTINGS[diff].hints);
-    setHintPieceId(null);
+    setHintsRemaining(getHintBudget(diff, newPieces.length));
+    setActiveHint(null);
+    setShowHintMenu(false);
+    setIsPickingGap(false);
+    hintsUsedRef.current = [];
+    setCursorSlotId(null);
+    setKeyboardHeldId(null);
     setIsLoaded(true);
-    localStorage.removeItem(`mosaic_save_${puzzle.id}`);
+    localStorage.removeItem(profileKey(`save_${puzzle.id}`));
   };
 
   const saveGame = () => {
@@ -302,12 +859,23 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
         pieces,
         difficulty,
         style,
+        seed,
+        placementMode,
+        rotationMode,
+        history,
+        moveCount,
+        replayEvents: replayRef.current.isRecording ? replayRef.current.events : undefined,
+        startToken: startTokenRef.current ?? undefined,
         elapsedTime: elapsedTimeRef.current,
         hintsRemaining,
-        isChaosMode: false,
+        hintsUsed: hintsUsedRef.current,
+        isChaosMode,
+        chaosTick: chaosTickRef.current,
+        grid,
+        pieceCount,
         lastPlayed: Date.now()
     };
-    localStorage.setItem(`mosaic_save_${puzzle.id}`, JSON.stringify(saveState));
+    localStorage.setItem(profileKey(`save_${puzzle.id}`), JSON.stringify(saveState));
   };
 
   useEffect(() => {
@@ -324,20 +892,101 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
               boardRef.current.style.pointerEvents = 'auto';
           }
       };
-  }, [pieces, isComplete, difficulty, style, isLoaded]);
+  }, [pieces, isComplete, difficulty, style, seed, placementMode, rotationMode, isChaosMode, grid, pieceCount, history, moveCount, isLoaded]);
 
   // Game Logic
 
-  const handleHint = () => {
-    if (hintsRemaining <= 0 || isComplete || hintPieceId !== null) return;
-    const unlocked = pieces.filter(p => !p.isLocked);
-    if (unlocked.length === 0) return;
-    const randomPiece = unlocked[Math.floor(Math.random() * unlocked.length)];
-    setHintPieceId(randomPiece.id);
-    setHintsRemaining(prev => prev - 1);
-    setTimeout(() => { setHintPieceId(null); }, 3000);
+  // 'findPiece' first asks which empty spot to fill and is only paid for once one is picked
+  const handleHint = (type: HintType, gapSlotId?: number) => {
+    const cost = getHintCost(type);
+    if (cost > hintsRemaining || isComplete || activeHint !== null || dragRef.current.active) return;
+
+    if (type === 'findPiece' && gapSlotId === undefined) {
+        if (pieces.every(p => p.isLocked)) return;
+        setShowHintMenu(false);
+        setIsPickingGap(true);
+        announce('Pick an empty spot: tap it, or move the cursor there and press Enter. Escape cancels.');
+        return;
+    }
+
+    let pieceId: number | null = null;
+    let edgeIds: number[] = [];
+    if (type === 'edges') {
+        edgeIds = getLooseEdgePieces(pieces).map(p => p.id);
+        if (edgeIds.length === 0) return;
+    } else if (type === 'findPiece') {
+        // A slot is the home of the piece with the same id, so that piece is the one that belongs there
+        const target = pieces.find(p => p.id === gapSlotId);
+        if (!target) return;
+        if (target.isLocked) {
+            announce('That spot is already filled. Pick an empty one.');
+            return;
+        }
+        pieceId = target.id;
+        setIsPickingGap(false);
+        if (viewRef.current.zoom > 1) centerOn(target.currentX + target.width / 2, target.currentY + target.height / 2);
+        announce(`${describePiece(target, getSlots(pieces), grid)} belongs there.`);
+    } else {
+        // 'locate' explains the piece the player last handled, as long as it is still loose
+        const last = pieces.find(p => p.id === lastPieceIdRef.current && !p.isLocked);
+        const target = type === 'locate' && last ? last : pickHintPiece(pieces);
+        if (!target) return;
+        pieceId = target.id;
+    }
+
+    setShowHintMenu(false);
+    setHintsRemaining(prev => prev - cost);
+    hintsUsedRef.current = [...hintsUsedRef.current, type];
+    recordEvent({ type: 'hint', hint: type, pieceId: pieceId ?? undefined });
+
+    if (type === 'autoPlace' && pieceId !== null) {
+        const result = resolveAutoPlace(pieces, pieceId, placementMode, difficulty);
+        if (!result) return;
+        // Let the group glide into place
+        result.pieces.forEach(p => {
+            const el = pieceRefs.current[p.id];
+            if (!el || !result.lockedIds.includes(p.id)) return;
+            el.style.transition = 'left 0.5s ease-out, top 0.5s ease-out, transform 0.5s ease-out';
+            setTimeout(() => { el.style.transition = ''; }, 600);
+        });
+        applyResult(result, pieces);
+        return;
+    }
+
+    setActiveHint({ type, pieceId, edgeIds });
+    setTimeout(() => { setActiveHint(null); }, HINT_DURATION);
+  };
+
+  const handleUndo = () => {
+    if (isComplete || dragRef.current.active) return;
+    const result = undoMove(history, pieces);
+    if (!result) return;
+    recordEvent({ type: 'undo' });
+    setHistory(result.history);
+    setPieces(result.pieces);
   };
 
+  const handleRedo = () => {
+    if (isComplete || dragRef.current.active) return;
+    const result = redoMove(history, pieces);
+    if (!result) return;
+    recordEvent({ type: 'redo' });
+    setHistory(result.history);
+    // Redoing the final placement finishes the puzzle
+    commitPieces(result.pieces, moveCount);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pieces, history, moveCount, isComplete]);
+
   const handleRestart = () => {
     if (window.confirm("Restart this puzzle?")) {
         initializeNewGame(difficulty, style);
@@ -349,12 +998,21 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
       if (!dragRef.current.active) return;
       
       const { startX, startY, currentX, currentY, groupCache, visualYOffset } = dragRef.current;
-      const dx = currentX - startX;
-      const dy = (currentY - startY) + visualYOffset;
-
+      // Pointer movement is in screen pixels, the pieces live inside the zoomed board
+      const { zoom } = viewRef.current;
+      const dx = (currentX - startX) / zoom;
+      const dy = ((currentY - startY) + visualYOffset) / zoom;
+
+      // Groups keep their natural size so the seams between members stay closed
+      const scale = groupCache.length > 1 ? 1 : 1.1;
+      if (useCanvas) {
+          const rotations: Record<number, number> = {};
+          groupCache.forEach(item => { rotations[item.id] = item.rotation; });
+          canvasLayerRef.current?.moveDrag(dx, dy, rotations, scale);
+      }
       for (let i = 0; i < groupCache.length; i++) {
           const item = groupCache[i];
-          item.el.style.transform = `translate3d(${dx}px, ${dy}px, 0) rotate(${item.rotation}deg) scale(1.1)`;
+          if (item.el) item.el.style.transform = `translate3d(${dx}px, ${dy}px, 0) rotate(${item.rotation}deg) scale(${scale})`;
       }
       
       rafRef.current = requestAnimationFrame(updateDragVisuals);
@@ -371,28 +1029,34 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
         }
     }
 
-    const groupMembers = [piece];
+    // Only free-form pieces join up; in grid mode every piece moves on its own
+    const groupMembers = placementMode === 'free' ? getGroupMembers(pieces, piece) : [piece];
+    const scale = groupMembers.length > 1 ? 1 : 1.1;
     
-    const groupCache: { id: number; el: HTMLDivElement; rotation: number }[] = [];
+    const groupCache: { id: number; el: HTMLDivElement | null; rotation: number }[] = [];
     const startPositions: Record<number, {x: number, y: number}> = {};
     const visualYOffset = (pointerType === 'touch' && !isSticky) ? -90 : 0;
     
     groupMembers.forEach(p => {
-        const el = pieceRefs.current[p.id];
+        const el = useCanvas ? null : pieceRefs.current[p.id];
+        groupCache.push({ id: p.id, el, rotation: p.rotation });
+        startPositions[p.id] = { x: p.currentX, y: p.currentY };
         if (el) {
-            groupCache.push({ id: p.id, el, rotation: p.rotation });
-            startPositions[p.id] = { x: p.currentX, y: p.currentY };
             el.style.transition = 'none';
             el.style.zIndex = '100';
             el.style.boxShadow = '0 20px 30px rgba(0,0,0,0.3)'; 
-            el.style.transform = `translate3d(0, ${visualYOffset}px, 0) rotate(${p.rotation}deg) scale(1.1)`;
+            el.style.transform = `translate3d(0, ${visualYOffset / viewRef.current.zoom}px, 0) rotate(${p.rotation}deg) scale(${scale})`;
             
             if (isSticky) {
                 el.style.pointerEvents = 'none';
             }
         }
     });
+    if (useCanvas) canvasLayerRef.current?.beginDrag(groupMembers.map(p => p.id));
 
+    lastPieceIdRef.current = piece.id;
+    setKeyboardHeldId(null);
+    recordEvent({ type: 'pickup', pieceId: piece.id });
     dragRef.current = {
         active: true,
         isSticky,
@@ -405,10 +1069,17 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
         groupCache,
         startPositions,
         startTime: Date.now(),
-        initialPieces: pieces 
+        initialPieces: pieces,
+        pointerId: event.type === 'pointerdown' ? (event as React.PointerEvent).pointerId : null,
+        hasRotated: false,
+        twist: null,
+        fromTray: false
     };
 
     window.addEventListener('pointermove', handleWindowPointerMove, { passive: false });
+    if (rotationMode && pointerType === 'touch' && !isSticky) {
+        window.addEventListener('pointerdown', handleTwistStart, { capture: true });
+    }
     
     if (isSticky) {
         setTimeout(() => {
@@ -431,13 +1102,16 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
     window.removeEventListener('pointerup', handleWindowPointerUp);
     window.removeEventListener('pointercancel', handleWindowPointerUp);
     window.removeEventListener('pointerdown', handleStickyDrop);
+    window.removeEventListener('pointerdown', handleTwistStart, { capture: true });
 
-    const { startX, startY, startTime, pieceId, groupCache, startPositions, initialPieces, visualYOffset } = dragRef.current;
+    const { startX, startY, startTime, pieceId, groupCache, startPositions, initialPieces, visualYOffset, hasRotated, fromTray } = dragRef.current;
 
     const cleanupStyles = () => {
+        if (useCanvas) canvasLayerRef.current?.endDrag();
         groupCache.forEach(item => {
             if (item.el) {
-                item.el.style.transform = '';
+                // React only rewrites the transform when it changes, so put the rotation back by hand
+                item.el.style.transform = `rotate(${item.rotation}deg)`;
                 item.el.style.zIndex = '';
                 item.el.style.cursor = '';
                 item.el.style.boxShadow = '';
@@ -447,6 +1121,14 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
         });
     };
 
+    // Released over the tray: the piece stays where it was on the board
+    const trayRect = trayRef.current?.getBoundingClientRect();
+    if (fromTray && trayRect && endX >= trayRect.left && endX <= trayRect.right && endY >= trayRect.top && endY <= trayRect.bottom) {
+        cleanupStyles();
+        recordEvent({ type: 'drop', pieceId: pieceId ?? undefined });
+        return;
+    }
+
     // Tap Detection (Only for non-sticky regular clicks)
     const dist = Math.hypot(endX - startX, endY - startY);
     const time = Date.now() - startTime;
@@ -454,15 +1136,16 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
     // If it's a quick tap without much movement (dist < 5px)
     if (!wasSticky && dist < 5 && time < 500 && pieceId !== null) {
          cleanupStyles();
+         recordEvent({ type: 'drop', pieceId });
+         if (rotationMode && !hasRotated) rotatePiece(pieceId, 1);
          return;
     }
 
-    // STRICT GRID DROP LOGIC (Only runs if moved > 5px)
+    // DROP LOGIC (Only runs if moved > 5px)
     const draggedPiece = initialPieces.find(p => p.id === pieceId);
     
     if (draggedPiece && boardRef.current) {
         const rect = boardRef.current.getBoundingClientRect();
-        const settings = DIFFICULTY_SETTINGS[difficulty];
         
         const totalDxPixels = endX - startX;
         const totalDyPixels = (endY - startY) + visualYOffset;
@@ -471,90 +1154,512 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
         const deltaYPercent = (totalDyPixels / rect.height) * 100;
         
         const startPos = startPositions[draggedPiece.id];
-        const cellW = 100 / settings.cols;
-        const cellH = 100 / settings.rows;
+        const dropX = startPos.x + deltaXPercent;
+        const dropY = startPos.y + deltaYPercent;
 
-        const currentCenterX = startPos.x + deltaXPercent + draggedPiece.width / 2;
-        const currentCenterY = startPos.y + deltaYPercent + draggedPiece.height / 2;
+        // Grid: nearest slot, swapping with its occupant. Free: rest anywhere, snap when close.
+        const result = placementMode === 'free'
+            ? resolveFreeDrop(initialPieces, draggedPiece.id, dropX, dropY, difficulty)
+            : resolveGridDrop(initialPieces, draggedPiece.id, dropX, dropY);
         
-        const targetCol = Math.floor(currentCenterX / cellW);
-        const targetRow = Math.floor(currentCenterY / cellH);
+        recordEvent({ type: 'drop', pieceId: draggedPiece.id, x: roundCoord(dropX), y: roundCoord(dropY) });
 
-        const startCol = Math.floor((startPos.x + draggedPiece.width / 2) / cellW);
-        const startRow = Math.floor((startPos.y + draggedPiece.height / 2) / cellH);
-        
-        let validMove = false;
-        let swapTargetId: number | null = null;
-        let targetX = startPos.x;
-        let targetY = startPos.y;
-        
-        if (targetCol >= 0 && targetCol < settings.cols && targetRow >= 0 && targetRow < settings.rows) {
-            const cellOffsetX = startPos.x - (startCol * cellW);
-            const cellOffsetY = startPos.y - (startRow * cellH);
-            
-            const newCssX = targetCol * cellW + cellOffsetX;
-            const newCssY = targetRow * cellH + cellOffsetY;
-            
-            const occupant = initialPieces.find(p => {
-                if (p.id === draggedPiece.id) return false;
-                const pCol = Math.floor((p.currentX + p.width/2) / cellW);
-                const pRow = Math.floor((p.currentY + p.height/2) / cellH);
-                return pCol === targetCol && pRow === targetRow;
-            });
-
-            if (!occupant) {
-                validMove = true;
-                targetX = newCssX;
-                targetY = newCssY;
-            } else if (!occupant.isLocked) {
-                validMove = true;
-                swapTargetId = occupant.id;
-                targetX = newCssX;
-                targetY = newCssY;
-            } else {
-                validMove = false;
-            }
+        // `pieces` is still the state from when the drag started
+        if (result) applyResult(result, pieces);
+    }
+    cleanupStyles();
+  };
+
+  const applyResult = (result: DropResult, previous: Piece[]) => {
+    if (result.swappedId !== null) recordEvent({ type: 'swap', pieceId: result.swappedId });
+    result.lockedIds.forEach(id => recordEvent({ type: 'lock', pieceId: id }));
+    if (result.lockedIds.length > 0) {
+        const placed = result.pieces.filter(p => p.isLocked).length;
+        const which = result.lockedIds.length === 1 ? `Piece ${result.lockedIds[0] + 1} placed.` : `${result.lockedIds.length} pieces placed.`;
+        announce(`${which} ${placed} of ${result.pieces.length} pieces in place.`);
+        flashLocked(result.lockedIds);
+    }
+    setHistory(h => recordMove(h, previous, result.pieces));
+    // Every drop, swap or turn is a move; undo and redo are not
+    const moves = moveCount + 1;
+    setMoveCount(moves);
+    commitPieces(result.pieces, moves);
+  };
+
+  const updateAssist = (changes: Partial<AssistSettings>) => {
+    const next = { ...assist, ...changes };
+    setAssist(next);
+    saveAssistSettings(next);
+  };
+
+  const flashLocked = (ids: number[]) => {
+    if (lockFlashTimerRef.current) clearTimeout(lockFlashTimerRef.current);
+    setLockFlashIds(ids);
+    lockFlashTimerRef.current = setTimeout(() => setLockFlashIds([]), LOCK_FLASH_DURATION);
+  };
+
+  const commitPieces = (newPieces: Piece[], moves: number) => {
+    setPieces(newPieces);
+
+    if (isPuzzleComplete(newPieces)) {
+        const finalTime = getElapsedSeconds(replayRef.current.startedAt);
+        elapsedTimeRef.current = finalTime;
+        const statsResult = updateUserStats(difficulty, finalTime, {
+            moveCount: moves,
+            hintsUsed: hintsUsedRef.current,
+            pieceCount: newPieces.length,
+            isChaosMode
+        });
+        const game: CompletionHistoryEntry = {
+            puzzleId: puzzle.id,
+            puzzleTitle: puzzle.title,
+            category: puzzle.category,
+            completedAt: Date.now(),
+            difficulty,
+            style,
+            isChaosMode,
+            duration: finalTime,
+            moveCount: moves,
+            hintsUsed: hintsUsedRef.current.length,
+            score: statsResult.score
+        };
+        updateQuestProgress(game);
+        setScore(statsResult.score);
+        setScoreBreakdown(statsResult.breakdown);
+
+        setPreviousBests(getPuzzleBests(loadHistory(), puzzle.id));
+        recordCompletion(game);
+        const unlocked = unlockAchievements({
+            history: loadHistory(),
+            completedIds: new Set([...loadCompletedIds(), puzzle.id]),
+            categories: puzzle.category && categoryPuzzleIds ? { [puzzle.category]: categoryPuzzleIds } : {}
+        });
+        setNewAchievements(unlocked);
+
+        if (replayRef.current.isRecording) {
+            const replay: GameReplay = {
+                puzzleId: puzzle.id,
+                difficulty,
+                style,
+                placementMode,
+                rotationMode,
+                isChaosMode,
+                grid,
+                seed,
+                duration: finalTime,
+                score: statsResult.score,
+                moveCount: moves,
+                completedAt: Date.now(),
+                events: [...replayRef.current.events]
+            };
+            saveReplayIfBest(replay);
+            setLastReplay(replay);
+            setVerification('pending');
+            submitCompletion(replay, startTokenRef.current).then(({ status }) => setVerification(status));
         }
-        
-        if (validMove) {
-             let newPieces = [...initialPieces];
-             
-             newPieces = newPieces.map(p => {
-                 if (p.id === draggedPiece.id) {
-                     const isCorrectSlot = Math.abs(targetX - p.correctX) < settings.snapThreshold && 
-                                           Math.abs(targetY - p.correctY) < settings.snapThreshold;
-                     
-                     return {
-                         ...p,
-                         currentX: targetX,
-                         currentY: targetY,
-                         isLocked: isCorrectSlot && p.rotation === 0
-                     };
-                 }
-                 if (swapTargetId !== null && p.id === swapTargetId) {
-                     return {
-                         ...p,
-                         currentX: startPos.x,
-                         currentY: startPos.y
-                     };
-                 }
-                 return p;
-             });
-
-             setPieces(newPieces);
-             
-             if (newPieces.every(p => p.isLocked)) {
-                const finalTime = elapsedTimeRef.current;
-                const result = updateUserStats(difficulty, finalTime);
-                updateQuestProgress(puzzle, difficulty, finalTime, result.score);
-                setScore(result.score);
-                setIsNewRecord(result.isNewRecord);
-                setIsComplete(true);
-                if (onComplete) onComplete();
-            }
+        setBestReplay(loadBestReplay(puzzle.id, difficulty));
+        setIsNewRecord(statsResult.isNewRecord);
+        setIsComplete(true);
+        const unlockedText = unlocked.map(a => ` Achievement unlocked: ${a.title}.`).join('');
+        announce(`Puzzle complete in ${formatTime(finalTime)} with ${moves} moves. Score ${statsResult.score.toLocaleString()}.${unlockedText}`);
+        if (onComplete) onComplete();
+    }
+  };
+
+  // --- Chaos Mode ---
+
+  // The interval always runs the latest handler, so the player's moves don't restart its clock
+  const chaosHandlerRef = useRef<() => void>(() => {});
+  chaosHandlerRef.current = () => {
+    if (dragRef.current.active || isComplete || viewingReplay) return;
+    const tick = chaosTickRef.current++;
+    const newPieces = applyChaos(pieces, seed, tick, placementMode, rotationMode);
+
+    // Let the disturbed pieces glide rather than jump
+    newPieces.forEach((p, i) => {
+        const el = pieceRefs.current[p.id];
+        if (!el || p === pieces[i]) return;
+        el.style.transition = 'left 0.8s ease-in-out, top 0.8s ease-in-out, transform 0.4s ease-out';
+        setTimeout(() => { el.style.transition = ''; }, 900);
+    });
+
+    recordEvent({ type: 'chaos', tick });
+    // Undo can't reach back past chaos: restoring old positions would clash with what chaos moved
+    setHistory(createHistory());
+    commitPieces(newPieces, moveCount);
+  };
+
+  useEffect(() => {
+    if (!isChaosMode || !isLoaded || isComplete) return;
+    const interval = setInterval(() => chaosHandlerRef.current(), CHAOS_SETTINGS.interval);
+    return () => clearInterval(interval);
+  }, [isChaosMode, isLoaded, isComplete]);
+
+  // --- Rotation ---
+
+  const rotatePiece = (pieceId: number, direction: 1 | -1) => {
+    if (!rotationMode || isComplete) return;
+
+    // Mid-drag the turn is applied to the lifted piece and resolved on release
+    const drag = dragRef.current;
+    if (drag.active) {
+        if (drag.pieceId !== pieceId || drag.groupCache.length !== 1) return;
+        drag.groupCache[0].rotation += 90 * direction;
+        drag.initialPieces = drag.initialPieces.map(p => (
+            p.id === pieceId ? { ...p, rotation: drag.groupCache[0].rotation } : p
+        ));
+        drag.hasRotated = true;
+        recordEvent({ type: 'rotate', pieceId, direction, held: true });
+        return;
+    }
+
+    const result = resolveRotation(pieces, pieceId, direction, placementMode, difficulty);
+    if (!result) return;
+
+    const el = pieceRefs.current[pieceId];
+    if (el) {
+        el.style.transition = 'transform 0.25s ease-out';
+        setTimeout(() => { el.style.transition = ''; }, 300);
+    }
+    lastPieceIdRef.current = pieceId;
+    recordEvent({ type: 'rotate', pieceId, direction });
+    applyResult(result, pieces);
+    const turned = result.pieces.find(p => p.id === pieceId);
+    if (turned && !turned.isLocked) announce(`Piece ${pieceId + 1} turned to ${((turned.rotation % 360) + 360) % 360} degrees.`);
+  };
+
+  // Two-finger twist: a second finger anywhere on screen while a piece is held by the first
+  const handleTwistStart = (e: PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag.active || drag.twist || e.pointerType !== 'touch' || e.pointerId === drag.pointerId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    drag.twist = {
+        pointerId: e.pointerId,
+        x: e.clientX,
+        y: e.clientY,
+        angle: Math.atan2(e.clientY - drag.currentY, e.clientX - drag.currentX)
+    };
+  };
+
+  const updateTwist = () => {
+    const drag = dragRef.current;
+    if (!drag.twist || drag.pieceId === null) return;
+    const angle = Math.atan2(drag.twist.y - drag.currentY, drag.twist.x - drag.currentX);
+    let delta = (angle - drag.twist.angle) * 180 / Math.PI;
+    if (delta > 180) delta -= 360;
+    if (delta < -180) delta += 360;
+
+    // Each 45 degrees of twist turns the piece a quarter
+    if (Math.abs(delta) >= 45) {
+        rotatePiece(drag.pieceId, delta > 0 ? 1 : -1);
+        drag.twist.angle = angle;
+    }
+  };
+
+  // --- Zoom & Pan ---
+  // Drop math reads boardRef's getBoundingClientRect(), which already includes the zoom,
+  // so screen-pixel deltas convert to board percent correctly at any zoom level.
+
+  const clampView = (zoom: number, x: number, y: number) => {
+    const z = Math.min(MAX_ZOOM, Math.max(1, zoom));
+    const board = boardRef.current;
+    const scatterScale = placementMode === 'free' ? 1 + (2 * SCATTER_MARGIN) / 100 : 1;
+    // Panning can bring any edge of the (scatter area around the) board to where it sits unzoomed
+    const maxX = board ? (board.offsetWidth * scatterScale * (z - 1)) / 2 : 0;
+    const maxY = board ? (board.offsetHeight * scatterScale * (z - 1)) / 2 : 0;
+    return {
+        zoom: z,
+        x: Math.min(maxX, Math.max(-maxX, x)),
+        y: Math.min(maxY, Math.max(-maxY, y))
+    };
+  };
+
+  // Zooms keeping the board point under (clientX, clientY) in place
+  const zoomAt = (clientX: number, clientY: number, zoom: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    const px = clientX - (rect.left + rect.width / 2);
+    const py = clientY - (rect.top + rect.height / 2);
+    const current = viewRef.current;
+    const next = Math.min(MAX_ZOOM, Math.max(1, zoom));
+    const ratio = next / current.zoom;
+    setView(clampView(next, px - (px - current.x) * ratio, py - (py - current.y) * ratio));
+  };
+
+  const zoomBy = (factor: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    zoomAt(rect.left + rect.width / 2, rect.top + rect.height / 2, viewRef.current.zoom * factor);
+  };
+
+  // Centres the view on a board point (percent), used by the minimap
+  const centerOn = (x: number, y: number) => {
+    const board = boardRef.current;
+    if (!board) return;
+    const { zoom } = viewRef.current;
+    setView(clampView(zoom, (50 - x) / 100 * board.offsetWidth * zoom, (50 - y) / 100 * board.offsetHeight * zoom));
+  };
+
+  // Wheel (and trackpad pinch, which arrives as ctrl+wheel) needs a non-passive listener
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        zoomAt(e.clientX, e.clientY, viewRef.current.zoom * Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015)));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [placementMode]);
+
+  // Pieces stop propagation of their pointerdown, so these only see empty board space.
+  // One pointer pans, two pinch-zoom around their midpoint.
+  const handleViewportPointerDown = (e: React.PointerEvent) => {
+    if (dragRef.current.active || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panGestureRef.current.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handleViewportPointerMove = (e: React.PointerEvent) => {
+    const { pointers } = panGestureRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous || dragRef.current.active) return;
+
+    if (pointers.size === 1) {
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        const current = viewRef.current;
+        setView(clampView(current.zoom, current.x + e.clientX - previous.x, current.y + e.clientY - previous.y));
+        return;
+    }
+
+    const [a, b] = [...pointers.values()];
+    const before = { mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, dist: Math.hypot(a.x - b.x, a.y - b.y) };
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const [c, d] = [...pointers.values()];
+    const after = { mid: { x: (c.x + d.x) / 2, y: (c.y + d.y) / 2 }, dist: Math.hypot(c.x - d.x, c.y - d.y) };
+    if (before.dist === 0) return;
+
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    const current = viewRef.current;
+    const zoom = Math.min(MAX_ZOOM, Math.max(1, current.zoom * (after.dist / before.dist)));
+    const ratio = zoom / current.zoom;
+    // Zoom around the old midpoint, then follow the midpoint's movement
+    const px = before.mid.x - (rect.left + rect.width / 2);
+    const py = before.mid.y - (rect.top + rect.height / 2);
+    setView(clampView(
+        zoom,
+        px - (px - current.x) * ratio + (after.mid.x - before.mid.x),
+        py - (py - current.y) * ratio + (after.mid.y - before.mid.y)
+    ));
+  };
+
+  const handleViewportPointerUp = (e: React.PointerEvent) => {
+    panGestureRef.current.pointers.delete(e.pointerId);
+  };
+
+  // The part of the board on screen, in board percent, for the minimap
+  const getVisibleRegion = () => {
+    const viewport = viewportRef.current;
+    const board = boardRef.current;
+    if (!viewport || !board) return { x: 0, y: 0, w: 100, h: 100 };
+    const { zoom, x, y } = view;
+    const bw = board.offsetWidth * zoom;
+    const bh = board.offsetHeight * zoom;
+    const left = (viewport.clientWidth / 2 + x) - bw / 2;
+    const top = (viewport.clientHeight / 2 + y) - bh / 2;
+    const x0 = Math.max(0, (-left / bw) * 100);
+    const y0 = Math.max(0, (-top / bh) * 100);
+    const x1 = Math.min(100, ((viewport.clientWidth - left) / bw) * 100);
+    const y1 = Math.min(100, ((viewport.clientHeight - top) / bh) * 100);
+    return { x: x0, y: y0, w: Math.max(0, x1 - x0), h: Math.max(0, y1 - y0) };
+  };
+
+  // --- Keyboard Play ---
+  // Arrows move the cursor, Enter or Space picks up the piece under it and puts it down on
+  // the cursor's cell (swapping with the piece there in grid mode), Escape puts it back and
+  // R turns it. Drops go through the same engine and replay events as pointer drops.
+
+  const describeCursor = (slotId: number, currentPieces: Piece[] = pieces): string => {
+    const slots = getSlots(currentPieces);
+    const slot = slots.find(s => s.id === slotId);
+    if (!slot) return '';
+    const { row, col } = getCellPosition(slot.x, slot.y, grid);
+    const piece = findPieceAtSlot(currentPieces, slots, slot, placementMode);
+    const content = placementMode === 'grid' && piece
+        ? describePiece(piece, slots, grid)
+        : (currentPieces.some(p => p.isLocked && p.id === slotId) ? 'filled' : 'empty');
+    return `Row ${row} column ${col}: ${content}`;
+  };
+
+  const keyboardPickUp = (slotId: number) => {
+    const slots = getSlots(pieces);
+    const slot = slots.find(s => s.id === slotId);
+    const piece = slot ? findPieceAtSlot(pieces, slots, slot, placementMode) : null;
+    if (!piece) {
+        announce('No loose piece left to pick up.');
+        return;
+    }
+    if (piece.isLocked) {
+        announce(`Piece ${piece.id + 1} is already placed.`);
+        return;
+    }
+    lastPieceIdRef.current = piece.id;
+    recordEvent({ type: 'pickup', pieceId: piece.id });
+    setKeyboardHeldId(piece.id);
+    announce(`Picked up ${describePiece(piece, slots, grid)}. Move to a cell and press Enter to put it down.`);
+  };
+
+  const keyboardDrop = (slotId: number) => {
+    const piece = pieces.find(p => p.id === keyboardHeldId);
+    const slot = getSlots(pieces).find(s => s.id === slotId);
+    setKeyboardHeldId(null);
+    // A turn (R) may already have locked it
+    if (!piece || !slot || piece.isLocked) return;
+
+    const pos = positionForSlot(piece, slot);
+    const result = placementMode === 'free'
+        ? resolveFreeDrop(pieces, piece.id, pos.x, pos.y, difficulty)
+        : resolveGridDrop(pieces, piece.id, pos.x, pos.y);
+    recordEvent({ type: 'drop', pieceId: piece.id, x: roundCoord(pos.x), y: roundCoord(pos.y) });
+    if (!result) {
+        announce(`Piece ${piece.id + 1} put back.`);
+        return;
+    }
+    applyResult(result, pieces);
+    if (result.lockedIds.length === 0) {
+        const moved = result.pieces.find(p => p.id === piece.id);
+        if (moved) announce(`Moved ${describePiece(moved, getSlots(result.pieces), grid)}.`);
+    }
+  };
+
+  // While a 'findPiece' hint waits for its spot, a tap on the board picks one instead of moving anything
+  const handleGapPointerDown = (e: React.PointerEvent) => {
+    const board = boardRef.current;
+    if (!isPickingGap || !board) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = board.getBoundingClientRect();
+    const slot = findNearestSlot(getSlots(pieces), ((e.clientX - rect.left) / rect.width) * 100, ((e.clientY - rect.top) / rect.height) * 100);
+    if (slot) handleHint('findPiece', slot.id);
+  };
+
+  const handleBoardKeyDown = (e: React.KeyboardEvent) => {
+    if (!isLoaded || isComplete || dragRef.current.active || e.ctrlKey || e.metaKey || e.altKey) return;
+    const slots = getSlots(pieces);
+    const cursor = slots.find(s => s.id === cursorSlotId) ?? getFirstSlot(slots);
+    if (!cursor) return;
+
+    if (isPickingGap && (e.key === 'Enter' || e.key === ' ' || e.key === 'Escape')) {
+        e.preventDefault();
+        if (e.key === 'Escape') {
+            setIsPickingGap(false);
+            announce('Hint cancelled.');
+        } else {
+            setCursorSlotId(cursor.id);
+            handleHint('findPiece', cursor.id);
         }
+        return;
     }
-    cleanupStyles();
+
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (direction) {
+        e.preventDefault();
+        // The first arrow press only shows the cursor where it is
+        const next = cursorSlotId === null ? cursor : (findSlotInDirection(slots, cursor, direction) ?? cursor);
+        setCursorSlotId(next.id);
+        if (keyboardHeldId === null) {
+            const piece = findPieceAtSlot(pieces, slots, next, placementMode);
+            if (placementMode === 'grid' && piece && !piece.isLocked) lastPieceIdRef.current = piece.id;
+        }
+        announce(describeCursor(next.id));
+        return;
+    }
+
+    if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        setCursorSlotId(cursor.id);
+        if (keyboardHeldId === null) keyboardPickUp(cursor.id);
+        else keyboardDrop(cursor.id);
+        return;
+    }
+
+    if (e.key === 'Escape' && keyboardHeldId !== null) {
+        e.preventDefault();
+        recordEvent({ type: 'drop', pieceId: keyboardHeldId });
+        setKeyboardHeldId(null);
+        announce(`Piece ${keyboardHeldId + 1} put back.`);
+    }
+  };
+
+  // --- Piece Tray ---
+
+  // Outlines and colours only change with the layout, not with every move
+  const layoutKey = `${style}-${seed}-${grid.rows}x${grid.cols}-${pieces.length}`;
+
+  const edgeKinds = useMemo(() => {
+    const kinds: Record<number, EdgeKind> = {};
+    if (showTray) pieces.forEach(p => { kinds[p.id] = getEdgeKind(p); });
+    return kinds;
+  }, [showTray, layoutKey]);
+
+  useEffect(() => {
+    if (!showTray || pieces.length === 0) return;
+    let cancelled = false;
+    setPieceColors(null);
+    loadImageForAnalysis(puzzle.src).then(img => {
+        if (!cancelled && img) setPieceColors(analyzePieceColors(img, pieces));
+    });
+    return () => { cancelled = true; };
+  }, [showTray, layoutKey, puzzle.src]);
+
+  const trayPieces = showTray ? getTrayPieces(pieces, placementMode) : [];
+  const visibleTrayPieces = showTray ? filterTrayPieces(trayPieces, trayFilter, edgeKinds, pieceColors) : [];
+
+  // Starts from the piece's centre on the board, so the piece jumps to the pointer
+  const startTrayDrag = (e: React.PointerEvent, piece: Piece) => {
+    const board = boardRef.current;
+    if (!board || isComplete) return;
+    const rect = board.getBoundingClientRect();
+    const cx = rect.left + ((piece.currentX + piece.width / 2) / 100) * rect.width;
+    const cy = rect.top + ((piece.currentY + piece.height / 2) / 100) * rect.height;
+    startDrag(cx, cy, piece, false, e.pointerType, e);
+    Object.assign(dragRef.current, { currentX: e.clientX, currentY: e.clientY, pointerId: e.pointerId, fromTray: true });
+  };
+
+  // Points a piece out on the board (and makes it the target of the R key)
+  const locatePiece = (piece: Piece) => {
+    lastPieceIdRef.current = piece.id;
+    if (viewRef.current.zoom > 1) centerOn(piece.currentX + piece.width / 2, piece.currentY + piece.height / 2);
+    setLocatedPieceId(piece.id);
+    setTimeout(() => setLocatedPieceId(current => (current === piece.id ? null : current)), 1500);
+  };
+
+  const handleTrayItemPointerDown = (e: React.PointerEvent, piece: Piece) => {
+    if (dragRef.current.active || isComplete || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    trayPressRef.current = { piece, pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+  };
+
+  const handleTrayPointerMove = (e: React.PointerEvent) => {
+    const press = trayPressRef.current;
+    if (!press || press.pointerId !== e.pointerId || dragRef.current.active) return;
+    const dx = e.clientX - press.x;
+    const dy = e.clientY - press.y;
+    if (Math.hypot(dx, dy) < 8) return;
+    trayPressRef.current = null;
+    // A sideways swipe scrolls the tray instead
+    if (e.pointerType === 'touch' && Math.abs(dx) > Math.abs(dy)) return;
+    startTrayDrag(e, press.piece);
+  };
+
+  const handleTrayPointerUp = (e: React.PointerEvent) => {
+    const press = trayPressRef.current;
+    trayPressRef.current = null;
+    if (!press || press.pointerId !== e.pointerId || dragRef.current.active) return;
+    locatePiece(press.piece);
   };
 
   // --- Event Handlers ---
@@ -562,12 +1667,27 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
   const handleWindowPointerMove = (e: PointerEvent) => {
     if (!dragRef.current.active) return;
     e.preventDefault(); 
+    const { twist, pointerId } = dragRef.current;
+    if (twist && e.pointerId === twist.pointerId) {
+        twist.x = e.clientX;
+        twist.y = e.clientY;
+        updateTwist();
+        return;
+    }
+    if (pointerId !== null && e.pointerId !== pointerId) return;
     dragRef.current.currentX = e.clientX;
     dragRef.current.currentY = e.clientY;
+    updateTwist();
   };
 
   const handleWindowPointerUp = (e: PointerEvent) => {
     if (!dragRef.current.active || dragRef.current.isSticky) return;
+    const { twist, pointerId } = dragRef.current;
+    if (twist && e.pointerId === twist.pointerId) {
+        dragRef.current.twist = null;
+        return;
+    }
+    if (pointerId !== null && e.pointerId !== pointerId) return;
     endDrag(e.clientX, e.clientY, false);
   };
 
@@ -591,13 +1711,54 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
       startDrag(e.clientX, e.clientY, piece, true, 'mouse', e);
   }, [pieces]);
 
+  const handleContextMenu = useCallback((e: React.MouseEvent, piece: Piece) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (!piece.isLocked) rotatePiece(piece.id, 1);
+  }, [pieces, rotationMode, placementMode, difficulty, isComplete]);
+
+  // R turns the held (or last touched) piece clockwise, Shift+R anticlockwise
+  useEffect(() => {
+    if (!rotationMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key.toLowerCase() !== 'r' || e.ctrlKey || e.metaKey || e.altKey) return;
+        const pieceId = dragRef.current.active ? dragRef.current.pieceId : lastPieceIdRef.current;
+        if (pieceId === null) return;
+        e.preventDefault();
+        rotatePiece(pieceId, e.shiftKey ? -1 : 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pieces, rotationMode, placementMode, difficulty, isComplete]);
+
 
   // UI Formatting
   const activeHintPiece = pieces.find(p => p.id === hintPieceId);
-  const difficultyConfig = DIFFICULTY_SETTINGS[difficulty];
+  const slots = getSlots(pieces);
+  const cursorSlot = slots.find(s => s.id === cursorSlotId);
+  const cursorPiece = cursorSlot ? findPieceAtSlot(pieces, slots, cursorSlot, placementMode) : null;
+  // Outlines on top of the hint target: every loose edge piece for an 'edges' hint, the found piece
+  // for a 'findPiece' hint, and pieces that just locked in
+  const outlines = useMemo(() => {
+    const map: Record<number, string> = {};
+    if (activeHint?.type === 'edges') activeHint.edgeIds.forEach(id => { map[id] = theme.highlight; });
+    // The piece a 'findPiece' hint found, wherever it lies; the ghost marks the spot it was found for
+    if (activeHint?.type === 'findPiece' && activeHint.pieceId !== null) map[activeHint.pieceId] = theme.hint;
+    lockFlashIds.forEach(id => { map[id] = theme.lock; });
+    return map;
+  }, [activeHint, lockFlashIds, theme]);
+  const pieceLabel = useCallback((p: Piece) => describePiece(p, getSlots(pieces), grid), [pieces, grid]);
 
   return (
     <div className="fixed inset-0 bg-slate-100 flex flex-col overflow-hidden touch-none select-none">
+
+      {/* Screen reader support */}
+      <p id="board-instructions" className="sr-only">
+        Use the arrow keys to move between cells. Press Enter or Space to pick up the piece in a cell, then move and press Enter or Space to put it down; in grid mode it swaps with the piece already there. Escape puts the piece back{rotationMode ? ', R turns it clockwise and Shift+R anticlockwise' : ''}.
+      </p>
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        <span key={announcement.id}>{announcement.text}</span>
+      </div>
       
       {/* 1. Header (Info & Exit) */}
       <header className="px-4 md:px-8 flex items-center justify-between z-30 bg-white/80 backdrop-blur-md border-b border-slate-200/60 shadow-sm pt-safe-top h-auto py-3">
@@ -611,7 +1772,12 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
         
         <div className="flex flex-col items-center">
              <h1 className="font-serif text-slate-800 font-semibold text-lg leading-none mb-1">{puzzle.title}</h1>
-             <GameTimer initialTime={elapsedTimeRef.current} onTimeUpdate={(t) => elapsedTimeRef.current = t} />
+             <div className="flex items-center gap-3">
+                 <GameTimer startedAt={replayRef.current.startedAt} isRunning={isLoaded && !isComplete} onTimeUpdate={(t) => elapsedTimeRef.current = t} />
+                 <span className="text-xs font-bold text-slate-400 uppercase tracking-wider tabular-nums">
+                     {moveCount} {moveCount === 1 ? 'move' : 'moves'}
+                 </span>
+             </div>
         </div>
         
         <button 
@@ -624,7 +1790,7 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
 
       {/* Settings Dropdown */}
       {showSettings && (
-         <div className="absolute top-20 right-4 z-50 bg-white p-4 rounded-2xl shadow-xl border border-slate-100 w-64 animate-in fade-in slide-in-from-top-4">
+         <div className="absolute top-20 right-4 z-50 bg-white p-4 rounded-2xl shadow-xl border border-slate-100 w-64 max-h-[calc(100vh-6rem)] overflow-y-auto animate-in fade-in slide-in-from-top-4">
             <h3 className="text-sm font-bold text-slate-400 uppercase mb-3">Difficulty</h3>
             <div className="space-y-2">
                 {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map(d => (
@@ -632,7 +1798,7 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                         key={d}
                         onClick={() => {
                             if(window.confirm("Restart game with new difficulty?")) {
-                                initializeNewGame(d, style);
+                                initializeNewGame(d, style, { pieceCount: null });
                                 setShowSettings(false);
                             }
                         }}
@@ -642,20 +1808,153 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                     </button>
                 ))}
             </div>
+            <h3 className="text-sm font-bold text-slate-400 uppercase mt-4 mb-3">Pieces</h3>
+            <div className="grid grid-cols-3 gap-2">
+                {[null, ...PIECE_COUNT_OPTIONS].map(count => (
+                    <button
+                        key={count ?? 'auto'}
+                        onClick={() => {
+                            if(window.confirm("Restart game with " + (count ? `about ${count} pieces` : "the difficulty's piece count") + "?")) {
+                                initializeNewGame(difficulty, style, { pieceCount: count });
+                                setShowSettings(false);
+                            }
+                        }}
+                        className={`px-2 py-3 rounded-xl text-sm font-medium transition-colors ${pieceCount === count ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50 text-slate-600'}`}
+                    >
+                        {count ?? 'Auto'}
+                    </button>
+                ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-400">{grid.cols} × {grid.rows} grid</p>
+            <h3 className="text-sm font-bold text-slate-400 uppercase mt-4 mb-3">Style</h3>
+            <div className="grid grid-cols-3 gap-2">
+                {PUZZLE_STYLES.map(s => (
+                    <button
+                        key={s.id}
+                        onClick={() => {
+                            if(window.confirm("Restart game with new style?")) {
+                                initializeNewGame(difficulty, s.id);
+                                setShowSettings(false);
+                            }
+                        }}
+                        className={`px-2 py-3 rounded-xl text-sm font-medium transition-colors ${style === s.id ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50 text-slate-600'}`}
+                    >
+                        {s.label}
+                    </button>
+                ))}
+            </div>
+            <h3 className="text-sm font-bold text-slate-400 uppercase mt-4 mb-3">Mode</h3>
+            <div className="grid grid-cols-2 gap-2">
+                {PLACEMENT_MODES.map(m => (
+                    <button
+                        key={m.id}
+                        onClick={() => {
+                            if(window.confirm("Restart game with new mode?")) {
+                                initializeNewGame(difficulty, style, { placementMode: m.id });
+                                setShowSettings(false);
+                            }
+                        }}
+                        className={`px-2 py-3 rounded-xl text-sm font-medium transition-colors ${placementMode === m.id ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50 text-slate-600'}`}
+                    >
+                        {m.label}
+                    </button>
+                ))}
+            </div>
+            <h3 className="text-sm font-bold text-slate-400 uppercase mt-4 mb-3">Rotation</h3>
+            <div className="grid grid-cols-2 gap-2">
+                {[false, true].map(on => (
+                    <button
+                        key={String(on)}
+                        onClick={() => {
+                            if(window.confirm("Restart game with rotation " + (on ? "on" : "off") + "?")) {
+                                initializeNewGame(difficulty, style, { rotate: on });
+                                setShowSettings(false);
+                            }
+                        }}
+                        className={`px-2 py-3 rounded-xl text-sm font-medium transition-colors ${rotationMode === on ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50 text-slate-600'}`}
+                    >
+                        {on ? 'On' : 'Off'}
+                    </button>
+                ))}
+            </div>
+            {rotationMode && (
+                <p className="mt-2 text-xs text-slate-400">Tap, right-click, twist or press R to turn a piece.</p>
+            )}
+            <h3 className="text-sm font-bold text-slate-400 uppercase mt-4 mb-3">Chaos</h3>
+            <div className="grid grid-cols-2 gap-2">
+                {[false, true].map(on => (
+                    <button
+                        key={String(on)}
+                        onClick={() => {
+                            if(window.confirm("Restart game with chaos " + (on ? "on" : "off") + "?")) {
+                                // Chaos turns pieces, so it switches rotation on too
+                                initializeNewGame(difficulty, style, { rotate: on || rotationMode, chaos: on });
+                                setShowSettings(false);
+                            }
+                        }}
+                        className={`px-2 py-3 rounded-xl text-sm font-medium transition-colors ${isChaosMode === on ? 'bg-rose-50 text-rose-700' : 'hover:bg-slate-50 text-slate-600'}`}
+                    >
+                        {on ? 'On' : 'Off'}
+                    </button>
+                ))}
+            </div>
+            {isChaosMode && (
+                <p className="mt-2 text-xs text-slate-400">Loose pieces wander and no peeking, for {CHAOS_SETTINGS.scoreMultiplier}× points.</p>
+            )}
+            <h3 className="text-sm font-bold text-slate-400 uppercase mt-4 mb-3">Accessibility</h3>
+            <div className="space-y-1">
+                {ASSIST_OPTIONS.map(option => (
+                    <button
+                        key={option.id}
+                        role="switch"
+                        aria-checked={assist[option.id]}
+                        onClick={() => updateAssist({ [option.id]: !assist[option.id] })}
+                        className={`w-full flex items-center justify-between px-4 py-3 rounded-xl text-sm font-medium transition-colors ${assist[option.id] ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50 text-slate-600'}`}
+                    >
+                        {option.label}
+                        <span className="text-xs font-bold">{assist[option.id] ? 'On' : 'Off'}</span>
+                    </button>
+                ))}
+            </div>
+            {seed > 0 && (
+                <p className="mt-3 text-[10px] font-mono text-slate-400 select-text">Seed {seed}</p>
+            )}
          </div>
       )}
 
       {/* 2. Main Game Area */}
-      <div className="flex-1 relative flex items-center justify-center overflow-hidden p-4">
-        
+      <div
+        ref={viewportRef}
+        className="flex-1 relative flex items-center justify-center overflow-hidden p-4 touch-none"
+        onPointerDown={handleViewportPointerDown}
+        onPointerMove={handleViewportPointerMove}
+        onPointerUp={handleViewportPointerUp}
+        onPointerCancel={handleViewportPointerUp}
+      >
+        <div
+          style={{
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+            transformOrigin: 'center',
+            cursor: view.zoom > 1 ? 'grab' : undefined
+          }}
+        >
         <div 
           ref={boardRef}
-          className="relative shadow-2xl shadow-indigo-900/10 bg-white rounded-lg transition-all"
+          className="relative shadow-2xl shadow-indigo-900/10 bg-white rounded-lg transition-all outline-none focus-visible:ring-4 focus-visible:ring-indigo-400"
           style={{
             width: boardDimensions.width,
             height: boardDimensions.height,
             touchAction: 'none'
           }}
+          tabIndex={0}
+          role="application"
+          aria-label={`${puzzle.title} puzzle board, ${grid.rows} rows by ${grid.cols} columns`}
+          aria-describedby="board-instructions"
+          aria-activedescendant={!useCanvas && cursorSlotId !== null && cursorPiece ? `piece-${cursorPiece.id}` : undefined}
+          onKeyDown={handleBoardKeyDown}
+          onPointerDownCapture={handleGapPointerDown}
+          onFocus={() => setIsBoardFocused(true)}
+          onBlur={() => setIsBoardFocused(false)}
           onContextMenu={(e) => { e.preventDefault(); e.stopPropagation(); }}
         >
             {isComplete && (
@@ -672,11 +1971,47 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                         linear-gradient(to right, #0f172a 1px, transparent 1px),
                         linear-gradient(to bottom, #0f172a 1px, transparent 1px)
                     `,
-                    backgroundSize: `${100 / difficultyConfig.cols}% ${100 / difficultyConfig.rows}%`
+                    backgroundSize: `${100 / grid.cols}% ${100 / grid.rows}%`
                     }}
                 />
             )}
 
+            {/* Row and column numbers, matching what the screen reader announces */}
+            {assist.showCoordinates && !isComplete && (
+                <div className="absolute inset-0 pointer-events-none" aria-hidden="true">
+                    {style !== 'classic' && (
+                        <div
+                            className="absolute inset-0 opacity-10"
+                            style={{
+                                backgroundImage: `
+                                    linear-gradient(to right, #0f172a 1px, transparent 1px),
+                                    linear-gradient(to bottom, #0f172a 1px, transparent 1px)
+                                `,
+                                backgroundSize: `${100 / grid.cols}% ${100 / grid.rows}%`
+                            }}
+                        />
+                    )}
+                    {Array.from({ length: grid.cols }, (_, i) => (
+                        <span
+                            key={`col-${i}`}
+                            className="absolute -top-5 -translate-x-1/2 text-[10px] font-bold text-slate-400 tabular-nums"
+                            style={{ left: `${((i + 0.5) * 100) / grid.cols}%` }}
+                        >
+                            {i + 1}
+                        </span>
+                    ))}
+                    {Array.from({ length: grid.rows }, (_, i) => (
+                        <span
+                            key={`row-${i}`}
+                            className="absolute -left-5 -translate-y-1/2 text-[10px] font-bold text-slate-400 tabular-nums"
+                            style={{ top: `${((i + 0.5) * 100) / grid.rows}%` }}
+                        >
+                            {i + 1}
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {!isComplete && (
                 <div 
                     className="absolute inset-0 pointer-events-none opacity-5 grayscale"
@@ -687,29 +2022,76 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                 />
             )}
 
+            {/* Keyboard cursor */}
+            {isBoardFocused && cursorSlot && !isComplete && (
+                <div
+                    className="absolute z-50 pointer-events-none rounded-md border-4"
+                    style={{
+                        borderColor: keyboardHeldId !== null ? theme.cursorHeld : theme.cursor,
+                        width: `${100 / grid.cols}%`,
+                        height: `${100 / grid.rows}%`,
+                        left: `${cursorSlot.x - 50 / grid.cols}%`,
+                        top: `${cursorSlot.y - 50 / grid.rows}%`
+                    }}
+                />
+            )}
+
+            {/* Ghost of the hinted piece at its correct spot */}
             {activeHintPiece && (
                 <div 
-                    className="absolute z-40 pointer-events-none animate-pulse opacity-50"
+                    className="absolute z-40 pointer-events-none animate-pulse"
                     style={{
                          width: `${activeHintPiece.width}%`,
                          height: `${activeHintPiece.height}%`,
                          left: `${activeHintPiece.correctX}%`,
-                         top: `${activeHintPiece.correctY}%`,
-                         backgroundColor: '#facc15'
+                         top: `${activeHintPiece.correctY}%`
                     }}
-                />
+                >
+                    {activeHintPiece.pathData ? (
+                        <svg viewBox={activeHintPiece.viewBox} width="100%" height="100%" preserveAspectRatio="none" style={{ overflow: 'visible' }}>
+                            <path d={activeHintPiece.pathData} fill={theme.hint} fillOpacity={0.35} stroke={theme.hint} strokeWidth="3" strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+                        </svg>
+                    ) : (
+                        <div className="relative w-full h-full border-[3px] border-dashed" style={{ borderColor: theme.hint }}>
+                            <div className="absolute inset-0" style={{ backgroundColor: theme.hint, opacity: 0.35 }} />
+                        </div>
+                    )}
+                </div>
             )}
 
             {isLoaded && !isComplete && (
-                <PuzzlePieceLayer 
-                    pieces={pieces}
-                    puzzleSrc={puzzle.src}
-                    pieceRefs={pieceRefs}
-                    onPointerDown={handlePointerDown}
-                    onDoubleClick={handleDoubleClick}
-                    hintPieceId={hintPieceId}
-                    showPreview={showPreview}
-                />
+                useCanvas ? (
+                    <PuzzleCanvasLayer
+                        ref={canvasLayerRef}
+                        pieces={pieces}
+                        puzzleSrc={puzzle.src}
+                        margin={placementMode === 'free' ? SCATTER_MARGIN : 0}
+                        resolution={Math.ceil(view.zoom)}
+                        onPointerDown={handlePointerDown}
+                        onDoubleClick={handleDoubleClick}
+                        onContextMenu={handleContextMenu}
+                        hintPieceId={hintPieceId ?? keyboardHeldId ?? locatedPieceId}
+                        outlines={outlines}
+                        showPreview={showPreview}
+                        theme={theme}
+                        showNumbers={assist.showNumbers}
+                    />
+                ) : (
+                    <PuzzlePieceLayer 
+                        pieces={pieces}
+                        puzzleSrc={puzzle.src}
+                        pieceRefs={pieceRefs}
+                        onPointerDown={handlePointerDown}
+                        onDoubleClick={handleDoubleClick}
+                        onContextMenu={handleContextMenu}
+                        hintPieceId={hintPieceId ?? keyboardHeldId ?? locatedPieceId}
+                        outlines={outlines}
+                        showPreview={showPreview}
+                        theme={theme}
+                        showNumbers={assist.showNumbers}
+                        pieceLabel={pieceLabel}
+                    />
+                )
             )}
 
             <div 
@@ -719,8 +2101,48 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                 <img src={puzzle.src} className="w-full h-full object-cover rounded-lg shadow-2xl" alt="preview" />
             </div>
         </div>
+        </div>
+
+        {/* Zoom controls and minimap */}
+        {isLoaded && !isComplete && (
+            <div className="absolute bottom-3 right-3 z-30 flex flex-col items-end gap-2" onPointerDown={(e) => e.stopPropagation()}>
+                {view.zoom > 1 && (
+                    <Minimap puzzleSrc={puzzle.src} aspect={imageAspect} visible={getVisibleRegion()} onNavigate={centerOn} />
+                )}
+                <div className="flex items-center gap-1 bg-white/90 backdrop-blur rounded-xl shadow-lg p-1">
+                    <button onClick={() => zoomBy(1 / 1.5)} disabled={view.zoom <= 1} className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:bg-slate-100 disabled:text-slate-300" aria-label="Zoom Out">
+                        <ZoomOut size={18} />
+                    </button>
+                    <button onClick={() => setView({ zoom: 1, x: 0, y: 0 })} disabled={view.zoom <= 1} className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:bg-slate-100 disabled:text-slate-300" aria-label="Fit Board">
+                        <Maximize size={16} />
+                    </button>
+                    <button onClick={() => zoomBy(1.5)} disabled={view.zoom >= MAX_ZOOM} className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:bg-slate-100 disabled:text-slate-300" aria-label="Zoom In">
+                        <ZoomIn size={18} />
+                    </button>
+                </div>
+            </div>
+        )}
       </div>
 
+      {/* Piece Tray */}
+      {showTray && isLoaded && !isComplete && (
+        <PieceTray
+            trayRef={trayRef}
+            pieces={visibleTrayPieces}
+            total={trayPieces.length}
+            puzzleSrc={puzzle.src}
+            aspect={imageAspect}
+            thumbSize={assist.largePieces ? LARGE_TRAY_THUMB_SIZE : TRAY_THUMB_SIZE}
+            filter={trayFilter}
+            onFilterChange={setTrayFilter}
+            colors={pieceColors}
+            onItemPointerDown={handleTrayItemPointerDown}
+            onPointerMove={handleTrayPointerMove}
+            onPointerUp={handleTrayPointerUp}
+            onPointerCancel={() => { trayPressRef.current = null; }}
+        />
+      )}
+
       {/* 3. Bottom Control Dock */}
       {!isComplete && (
       <div className="h-auto px-6 flex items-center justify-center gap-6 z-40 pointer-events-none pb-safe-bottom">
@@ -735,12 +2157,75 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                 <span className="text-[10px] font-bold uppercase tracking-wider">Reset</span>
              </button>
 
+             {/* Undo / Redo */}
+             <button 
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                aria-label="Undo (Ctrl+Z)"
+                className={`flex flex-col items-center justify-center w-16 h-16 rounded-2xl transition-all active:scale-95 ${
+                    history.past.length > 0 ? 'text-slate-500 hover:bg-slate-100 active:bg-slate-200' : 'text-slate-300'
+                }`}
+             >
+                <Undo2 size={22} className="mb-1" />
+                <span className="text-[10px] font-bold uppercase tracking-wider">Undo</span>
+             </button>
+             <button 
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                aria-label="Redo (Ctrl+Shift+Z)"
+                className={`flex flex-col items-center justify-center w-16 h-16 rounded-2xl transition-all active:scale-95 ${
+                    history.future.length > 0 ? 'text-slate-500 hover:bg-slate-100 active:bg-slate-200' : 'text-slate-300'
+                }`}
+             >
+                <Redo2 size={22} className="mb-1" />
+                <span className="text-[10px] font-bold uppercase tracking-wider">Redo</span>
+             </button>
+
              <div className="w-px h-10 bg-slate-200"></div>
 
-             {/* Hint */}
+             {/* Hint: opens the menu of hint types */}
+             <div className="relative">
+             {isPickingGap && (
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 w-64 bg-white rounded-2xl shadow-2xl border border-slate-100 p-3 flex items-center gap-3 animate-in fade-in slide-in-from-bottom-2">
+                    <span className="flex-1 text-xs font-bold text-slate-600">Tap an empty spot to find its piece</span>
+                    <button
+                        onClick={() => setIsPickingGap(false)}
+                        className="shrink-0 px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100"
+                    >
+                        Cancel
+                    </button>
+                </div>
+             )}
+             {showHintMenu && (
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 w-72 bg-white rounded-2xl shadow-2xl border border-slate-100 p-2 animate-in fade-in slide-in-from-bottom-2">
+                    {HINT_TYPES.map(hint => {
+                        const isAffordable = hint.cost <= hintsRemaining && activeHint === null;
+                        return (
+                            <button
+                                key={hint.id}
+                                onClick={() => handleHint(hint.id)}
+                                disabled={!isAffordable}
+                                className="w-full flex items-center gap-3 p-3 rounded-xl text-left transition-colors hover:bg-amber-50 disabled:opacity-40 disabled:hover:bg-transparent"
+                            >
+                                <div className="flex-1">
+                                    <div className="text-sm font-bold text-slate-700">{hint.label}</div>
+                                    <div className="text-xs text-slate-400">{hint.description}</div>
+                                </div>
+                                <span className="shrink-0 flex items-center gap-1 text-xs font-bold text-amber-600 bg-amber-50 px-2 py-1 rounded-lg">
+                                    <Lightbulb size={12} /> {hint.cost}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+             )}
              <button 
-                onClick={handleHint}
+                onClick={() => {
+                    setIsPickingGap(false);
+                    setShowHintMenu(!showHintMenu);
+                }}
                 disabled={hintsRemaining === 0}
+                aria-expanded={showHintMenu}
                 className={`flex flex-col items-center justify-center w-16 h-16 rounded-2xl transition-all active:scale-95 ${
                     hintsRemaining > 0 
                     ? 'text-amber-600 hover:bg-amber-50 active:bg-amber-100' 
@@ -755,8 +2240,22 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                 </div>
                 <span className="text-[10px] font-bold uppercase tracking-wider">Hint</span>
              </button>
+             </div>
              
-             {/* Preview */}
+             {/* Piece Tray */}
+             <button 
+                onClick={() => setShowTray(!showTray)}
+                aria-pressed={showTray}
+                className={`flex flex-col items-center justify-center w-16 h-16 rounded-2xl transition-all active:scale-95 ${
+                    showTray ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:bg-slate-100 active:bg-slate-200'
+                }`}
+             >
+                <PanelBottom size={22} className="mb-1" />
+                <span className="text-[10px] font-bold uppercase tracking-wider">Tray</span>
+             </button>
+
+             {/* Preview (not available in chaos mode) */}
+             {!isChaosMode && (
              <button 
                 onPointerDown={() => setShowPreview(true)}
                 onPointerUp={() => setShowPreview(false)}
@@ -766,6 +2265,7 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                 <Eye size={22} className="mb-1 fill-indigo-100" />
                 <span className="text-[10px] font-bold uppercase tracking-wider">Peek</span>
              </button>
+             )}
          </div>
       </div>
       )}
@@ -785,10 +2285,53 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                           <span className="text-slate-500 text-xs font-bold uppercase tracking-wider">Time</span>
                           <span className="text-slate-800 font-mono font-bold text-lg">{formatTime(elapsedTimeRef.current)}</span>
                       </div>
+                      <div className="flex justify-between items-center mb-2">
+                          <span className="text-slate-500 text-xs font-bold uppercase tracking-wider">Moves</span>
+                          <span className="text-slate-800 font-mono font-bold text-lg">{moveCount}</span>
+                      </div>
+                      {scoreBreakdown && (
+                          <div className="space-y-1 py-2 mb-2 border-y border-slate-200/70 text-xs font-mono text-slate-500">
+                              <div className="flex justify-between"><span>Base</span><span>{scoreBreakdown.base.toLocaleString()}</span></div>
+                              <div className="flex justify-between"><span>Speed bonus</span><span>+{scoreBreakdown.timeBonus.toLocaleString()}</span></div>
+                              <div className="flex justify-between"><span>Efficiency bonus</span><span>+{scoreBreakdown.efficiencyBonus.toLocaleString()}</span></div>
+                              {scoreBreakdown.hintPenalty > 0 && (
+                                  <div className="flex justify-between text-rose-500"><span>Hints used</span><span>-{scoreBreakdown.hintPenalty.toLocaleString()}</span></div>
+                              )}
+                              {scoreBreakdown.multiplier !== 1 && (
+                                  <div className="flex justify-between text-indigo-500"><span>Chaos</span><span>×{scoreBreakdown.multiplier}</span></div>
+                              )}
+                          </div>
+                      )}
                       <div className="flex justify-between items-center">
                           <span className="text-slate-500 text-xs font-bold uppercase tracking-wider">Score</span>
                           <span className="text-indigo-600 font-mono font-bold text-xl">{score.toLocaleString()}</span>
                       </div>
+                      {verification && (
+                          <p className={`mt-2 text-right text-[10px] font-bold uppercase tracking-wider ${VERIFICATION_LABELS[verification].className}`}>
+                              {VERIFICATION_LABELS[verification].label}
+                          </p>
+                      )}
+                      <div className="mt-3 pt-3 border-t border-slate-200/70 text-xs text-slate-500 space-y-1">
+                          {previousBests ? (
+                              <>
+                                  <div className="flex justify-between">
+                                      <span>Puzzle best</span>
+                                      <span className="font-mono font-bold text-slate-700">
+                                          {formatTime(Math.min(previousBests.bestTime, elapsedTimeRef.current))} · {Math.max(previousBests.bestScore, score).toLocaleString()} pts
+                                      </span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                      <span>Last played</span>
+                                      <span className="font-bold text-slate-700">{formatLastPlayed(previousBests.lastPlayed)}</span>
+                                  </div>
+                                  {(elapsedTimeRef.current < previousBests.bestTime || score > previousBests.bestScore) && (
+                                      <div className="text-center font-bold text-emerald-600">Personal best for this puzzle!</div>
+                                  )}
+                              </>
+                          ) : (
+                              <div className="text-center font-bold text-slate-500">First time solving this puzzle</div>
+                          )}
+                      </div>
                       {isNewRecord && (
                           <div className="mt-3 text-center">
                               <span className="inline-block bg-amber-100 text-amber-700 text-xs font-bold px-3 py-1 rounded-full animate-bounce shadow-sm border border-amber-200">
@@ -799,6 +2342,58 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
                   </div>
               </div>
               
+              {newAchievements.length > 0 && (
+                  <div className="mb-4 space-y-2">
+                      {newAchievements.map(a => (
+                          <div key={a.id} className="flex items-center gap-3 p-2 pr-4 rounded-2xl bg-amber-50 border border-amber-100 text-left animate-in fade-in slide-in-from-bottom-2">
+                              <AchievementBadge achievement={a} unlocked size="sm" />
+                              <div className="min-w-0">
+                                  <div className="text-[10px] font-bold text-amber-600 uppercase tracking-wider">Achievement Unlocked</div>
+                                  <div className="text-sm font-bold text-slate-800 truncate">{a.title}</div>
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+              )}
+
+              {(lastReplay || bestReplay) && (
+                  <div className="flex gap-3 mb-3">
+                      {lastReplay && (
+                          <button
+                              onClick={() => setViewingReplay(lastReplay)}
+                              className="flex-1 py-2 rounded-2xl bg-indigo-50 text-indigo-700 text-sm font-bold hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2"
+                          >
+                              <Film size={16} /> Watch Replay
+                          </button>
+                      )}
+                      {bestReplay && bestReplay.completedAt !== lastReplay?.completedAt && (
+                          <button
+                              onClick={() => setViewingReplay(bestReplay)}
+                              className="flex-1 py-2 rounded-2xl bg-amber-50 text-amber-700 text-sm font-bold hover:bg-amber-100 transition-colors flex items-center justify-center gap-2"
+                          >
+                              <Film size={16} /> Best Solve
+                          </button>
+                      )}
+                  </div>
+              )}
+
+              <button
+                  onClick={() => setShowLeaderboard(prev => !prev)}
+                  className="w-full py-2 mb-3 rounded-2xl bg-slate-50 text-slate-600 text-sm font-bold hover:bg-slate-100 transition-colors flex items-center justify-center gap-2"
+                  aria-expanded={showLeaderboard}
+              >
+                  <Trophy size={16} /> {showLeaderboard ? 'Hide Leaderboard' : 'Leaderboard'}
+              </button>
+              {showLeaderboard && (
+                  <div className="mb-3 max-h-64 overflow-y-auto custom-scrollbar">
+                      <LeaderboardPanel
+                          boards={[{ id: 'puzzle', label: 'This Puzzle', query: { puzzleId: puzzle.id, difficulty, style, isChaosMode, pieceCount: getNominalPieceCount(difficulty, pieces.length) ?? pieces.length } }]}
+                          refreshKey={verification}
+                          compact
+                      />
+                  </div>
+              )}
+
               <div className="flex gap-3">
                   <button 
                     onClick={() => initializeNewGame(difficulty, style)}
@@ -813,6 +2408,10 @@ const GameBoard: React.FC<GameBoardProps> = ({ puzzle, onExit, onComplete }) =>
            </div>
         </div>
       )}
+
+      {viewingReplay && (
+        <ReplayViewer replay={viewingReplay} puzzleSrc={puzzle.src} aspect={imageAspect} onClose={() => setViewingReplay(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Trophy, WifiOff } from 'lucide-react';
+import { Difficulty, PuzzleStyle, Leaderboard, LeaderboardEntry, LeaderboardMetric, LeaderboardQuery } from '../types';
+import { DIFFICULTY_SETTINGS, PUZZLE_STYLES, PIECE_COUNT_OPTIONS, getNominalPieceCount } from '../constants';
+import { fetchLeaderboard } from '../services/leaderboardService';
+import { formatTime } from '../services/statsService';
+
+export interface LeaderboardBoard {
+    id: string;
+    label: string;
+    // Whatever the board leaves out of difficulty, size, chaos and style, the player picks
+    query: Partial<Omit<LeaderboardQuery, 'metric' | 'limit'>>;
+}
+
+interface LeaderboardPanelProps {
+    boards: LeaderboardBoard[];
+    // Changing this reloads the board, e.g. once a new completion is verified
+    refreshKey?: unknown;
+    compact?: boolean;
+}
+
+const METRICS: { id: LeaderboardMetric; label: string }[] = [
+    { id: 'time', label: 'Time' },
+    { id: 'score', label: 'Score' }
+];
+
+const getPresetPieceCount = (difficulty: Difficulty) => DIFFICULTY_SETTINGS[difficulty].rows * DIFFICULTY_SETTINGS[difficulty].cols;
+
+// Custom counts that make a board of their own at this difficulty; the rest play as its preset
+const getCustomPieceCounts = (difficulty: Difficulty) =>
+    PIECE_COUNT_OPTIONS.filter(n => n !== getPresetPieceCount(difficulty) && getNominalPieceCount(difficulty, n) === n);
+
+const EntryRow: React.FC<{ entry: LeaderboardEntry; metric: LeaderboardMetric; isPlayer: boolean }> = ({ entry, metric, isPlayer }) => (
+    <li className={`flex items-center gap-3 px-3 py-2 rounded-xl ${isPlayer ? 'bg-indigo-50 text-indigo-900' : 'text-slate-700'}`}>
+        <span className={`w-6 text-right font-mono font-bold text-sm ${entry.rank <= 3 ? 'text-amber-500' : 'text-slate-400'}`}>{entry.rank}</span>
+        <span className="text-xl">{entry.avatar}</span>
+        <span className="flex-1 font-bold text-sm truncate">{entry.name}</span>
+        <span className="font-mono font-bold text-sm">
+            {metric === 'time' ? formatTime(entry.duration) : entry.score.toLocaleString()}
+        </span>
+    </li>
+);
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ boards, refreshKey, compact = false }) => {
+    const [boardId, setBoardId] = useState(boards[0]?.id);
+    const [metric, setMetric] = useState<LeaderboardMetric>('time');
+    const [difficulty, setDifficulty] = useState<Difficulty>('normal');
+    // Null plays the difficulty's preset size
+    const [pieceCount, setPieceCount] = useState<number | null>(null);
+    const [isChaosMode, setIsChaosMode] = useState(false);
+    const [style, setStyle] = useState<PuzzleStyle | ''>('');
+    const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const board = boards.find(b => b.id === boardId) ?? boards[0];
+    const boardDifficulty = board?.query.difficulty ?? difficulty;
+    const query: LeaderboardQuery = {
+        ...board?.query,
+        metric,
+        difficulty: boardDifficulty,
+        pieceCount: board?.query.pieceCount ?? pieceCount ?? getPresetPieceCount(boardDifficulty),
+        isChaosMode: board?.query.isChaosMode ?? isChaosMode,
+        style: board?.query.style ?? (style || undefined),
+        limit: compact ? 5 : 10
+    };
+
+    useEffect(() => {
+        if (!board) return;
+        let cancelled = false;
+        setIsLoading(true);
+        fetchLeaderboard(query).then(result => {
+            if (cancelled) return;
+            setLeaderboard(result);
+            setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [board?.id, metric, query.difficulty, query.pieceCount, query.isChaosMode, query.style, refreshKey]);
+
+    if (!board) return null;
+
+    const playerOutsideTop = leaderboard?.player && !leaderboard.entries.some(e => e.isPlayer);
+    const selectClass = "w-full px-3 py-1.5 rounded-lg bg-slate-50 border border-slate-200 text-xs font-bold text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+    return (
+        <div className="w-full text-left">
+            <div className="flex items-center justify-between gap-2 mb-3">
+                {boards.length > 1 ? (
+                    <div className="flex gap-1 bg-slate-100 p-1 rounded-xl">
+                        {boards.map(b => (
+                            <button
+                                key={b.id}
+                                onClick={() => setBoardId(b.id)}
+                                className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${b.id === board.id ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                            >
+                                {b.label}
+                            </button>
+                        ))}
+                    </div>
+                ) : (
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{board.label}</span>
+                )}
+                <div className="flex gap-1 bg-slate-100 p-1 rounded-xl">
+                    {METRICS.map(m => (
+                        <button
+                            key={m.id}
+                            onClick={() => setMetric(m.id)}
+                            className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${m.id === metric ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {(board.query.difficulty === undefined || board.query.pieceCount === undefined || board.query.isChaosMode === undefined || board.query.style === undefined) && (
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                    {board.query.difficulty === undefined && (
+                        <select
+                            value={difficulty}
+                            onChange={e => {
+                                setDifficulty(e.target.value as Difficulty);
+                                setPieceCount(null);
+                            }}
+                            className={selectClass}
+                            aria-label="Difficulty"
+                        >
+                            {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map(d => (
+                                <option key={d} value={d}>{d.charAt(0).toUpperCase() + d.slice(1)}</option>
+                            ))}
+                        </select>
+                    )}
+                    {board.query.pieceCount === undefined && (
+                        <select value={pieceCount ?? ''} onChange={e => setPieceCount(e.target.value ? Number(e.target.value) : null)} className={selectClass} aria-label="Pieces">
+                            <option value="">{getPresetPieceCount(boardDifficulty)} pieces</option>
+                            {getCustomPieceCounts(boardDifficulty).map(n => (
+                                <option key={n} value={n}>{n} pieces</option>
+                            ))}
+                        </select>
+                    )}
+                    {board.query.isChaosMode === undefined && (
+                        <select value={isChaosMode ? 'chaos' : 'calm'} onChange={e => setIsChaosMode(e.target.value === 'chaos')} className={selectClass} aria-label="Chaos">
+                            <option value="calm">Calm</option>
+                            <option value="chaos">Chaos</option>
+                        </select>
+                    )}
+                    {board.query.style === undefined && (
+                        <select value={style} onChange={e => setStyle(e.target.value as PuzzleStyle | '')} className={selectClass} aria-label="Style">
+                            <option value="">All styles</option>
+                            {PUZZLE_STYLES.map(s => (
+                                <option key={s.id} value={s.id}>{s.label}</option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="py-6 text-center text-sm text-slate-400">Loading...</div>
+            ) : !leaderboard ? (
+                <div className="py-6 flex flex-col items-center gap-2 text-sm text-slate-400">
+                    <WifiOff size={20} />
+                    Leaderboard unavailable offline
+                </div>
+            ) : leaderboard.entries.length === 0 ? (
+                <div className="py-6 flex flex-col items-center gap-2 text-sm text-slate-400">
+                    <Trophy size={20} />
+                    No verified times yet
+                </div>
+            ) : (
+                <ol className="space-y-1">
+                    {leaderboard.entries.map(entry => (
+                        <EntryRow key={entry.playerId} entry={entry} metric={metric} isPlayer={entry.isPlayer} />
+                    ))}
+                    {playerOutsideTop && (
+                        <>
+                            <li className="text-center text-slate-300 text-xs leading-none" aria-hidden="true">⋯</li>
+                            <EntryRow entry={leaderboard.player!} metric={metric} isPlayer />
+                        </>
+                    )}
+                </ol>
+            )}
+        </div>
+    );
+};
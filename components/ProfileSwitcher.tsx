@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Check, KeyRound, Plus, Trash2, CloudDownload, X } from 'lucide-react';
+import { LocalProfile } from '../types';
+import { PROFILE_AVATARS } from '../constants';
+import { loadProfiles, getActiveProfile, createProfile, switchProfile, removeProfile, getRestoreCode } from '../services/accountService';
+import { setProfilePin, restoreProfile } from '../services/profileService';
+
+type Panel = 'list' | 'add' | 'pin' | 'restore';
+
+interface ProfileSwitcherProps {
+    className?: string;
+}
+
+// Everything on screen belongs to the active profile, so switching simply starts the app again
+const reloadApp = () => window.location.reload();
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ className = '' }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [panel, setPanel] = useState<Panel>('list');
+    const [profiles, setProfiles] = useState<LocalProfile[]>(() => loadProfiles());
+    const [active, setActive] = useState<LocalProfile>(() => getActiveProfile());
+    const [name, setName] = useState('');
+    const [avatar, setAvatar] = useState(PROFILE_AVATARS[1]);
+    const [pin, setPin] = useState('');
+    const [currentPin, setCurrentPin] = useState('');
+    const [code, setCode] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    const [pinSaved, setPinSaved] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const openPanel = (next: Panel) => {
+        setPanel(next);
+        setPin('');
+        setCurrentPin('');
+        setCode('');
+        setName('');
+        setMessage(null);
+        setPinSaved(false);
+    };
+
+    const close = () => {
+        setIsOpen(false);
+        openPanel('list');
+    };
+
+    const handleSwitch = (id: string) => {
+        if (id === active.id) return;
+        switchProfile(id);
+        reloadApp();
+    };
+
+    const handleRemove = (profile: LocalProfile) => {
+        if (!window.confirm(`Remove ${profile.name} from this device? Their progress here will be deleted.`)) return;
+        removeProfile(profile.id);
+        setProfiles(loadProfiles());
+    };
+
+    const handleAdd = () => {
+        const profile = createProfile(name, avatar);
+        switchProfile(profile.id);
+        reloadApp();
+    };
+
+    const handleSetPin = async () => {
+        setIsBusy(true);
+        const error = await setProfilePin(pin, active.hasPin ? currentPin : undefined);
+        setIsBusy(false);
+        setMessage(error);
+        setPinSaved(!error);
+        setActive(getActiveProfile());
+    };
+
+    const handleRestore = async () => {
+        setIsBusy(true);
+        const error = await restoreProfile(code, pin);
+        setIsBusy(false);
+        if (error) {
+            setMessage(error);
+            return;
+        }
+        reloadApp();
+    };
+
+    const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50 text-slate-800 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500";
+    const primaryClass = "w-full py-3 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className={`z-20 ${className}`}>
+            <button
+                onClick={() => (isOpen ? close() : setIsOpen(true))}
+                className="flex items-center gap-2 pl-2 pr-4 py-2 bg-white/80 backdrop-blur-sm hover:bg-white text-slate-700 rounded-full shadow-sm border border-slate-200 transition-all active:scale-95"
+                title="Switch player"
+                aria-expanded={isOpen}
+            >
+                <span className="text-2xl w-10 h-10 flex items-center justify-center bg-slate-100 rounded-full">{active.avatar}</span>
+                <span className="font-bold text-sm max-w-[8rem] truncate hidden sm:inline">{active.name}</span>
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-3 w-80 bg-white rounded-3xl shadow-2xl border border-slate-100 p-5 animate-in fade-in slide-in-from-top-2">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-bold text-slate-400 uppercase">
+                            {panel === 'list' ? 'Players' : panel === 'add' ? 'New Player' : panel === 'pin' ? 'Backup PIN' : 'Restore Player'}
+                        </h3>
+                        <button onClick={panel === 'list' ? close : () => openPanel('list')} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400">
+                            <X size={16} />
+                        </button>
+                    </div>
+
+                    {panel === 'list' && (
+                        <>
+                            <div className="space-y-2 mb-4 max-h-64 overflow-y-auto custom-scrollbar">
+                                {profiles.map(profile => (
+                                    <div key={profile.id} className={`group flex items-center gap-3 p-2 rounded-2xl transition-colors ${profile.id === active.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                                        <button onClick={() => handleSwitch(profile.id)} className="flex items-center gap-3 flex-1 min-w-0 text-left">
+                                            <span className="text-2xl w-10 h-10 flex items-center justify-center bg-white rounded-full shadow-sm">{profile.avatar}</span>
+                                            <span className="font-bold text-slate-700 truncate">{profile.name}</span>
+                                        </button>
+                                        {profile.id === active.id ? (
+                                            <Check size={18} className="text-indigo-600 mr-2" />
+                                        ) : (
+                                            <button
+                                                onClick={() => handleRemove(profile)}
+                                                className="p-2 text-slate-300 hover:text-rose-500 transition-colors"
+                                                title={`Remove ${profile.name}`}
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-3 gap-2">
+                                <button onClick={() => openPanel('add')} className="flex flex-col items-center gap-1 p-3 rounded-2xl bg-slate-50 hover:bg-slate-100 text-slate-600 text-xs font-bold transition-colors">
+                                    <Plus size={18} /> Add
+                                </button>
+                                <button onClick={() => openPanel('pin')} className="flex flex-col items-center gap-1 p-3 rounded-2xl bg-slate-50 hover:bg-slate-100 text-slate-600 text-xs font-bold transition-colors">
+                                    <KeyRound size={18} /> PIN
+                                </button>
+                                <button onClick={() => openPanel('restore')} className="flex flex-col items-center gap-1 p-3 rounded-2xl bg-slate-50 hover:bg-slate-100 text-slate-600 text-xs font-bold transition-colors">
+                                    <CloudDownload size={18} /> Restore
+                                </button>
+                            </div>
+                        </>
+                    )}
+
+                    {panel === 'add' && (
+                        <div className="space-y-4">
+                            <input
+                                value={name}
+                                onChange={e => setName(e.target.value)}
+                                maxLength={20}
+                                placeholder="Name"
+                                className={inputClass}
+                                autoFocus
+                            />
+                            <div className="grid grid-cols-6 gap-2">
+                                {PROFILE_AVATARS.map(a => (
+                                    <button
+                                        key={a}
+                                        onClick={() => setAvatar(a)}
+                                        className={`text-2xl aspect-square rounded-xl flex items-center justify-center transition-all ${avatar === a ? 'bg-indigo-100 ring-2 ring-indigo-500' : 'bg-slate-50 hover:bg-slate-100'}`}
+                                        aria-pressed={avatar === a}
+                                    >
+                                        {a}
+                                    </button>
+                                ))}
+                            </div>
+                            <button onClick={handleAdd} disabled={!name.trim()} className={primaryClass}>
+                                Create & Switch
+                            </button>
+                        </div>
+                    )}
+
+                    {panel === 'pin' && (
+                        <div className="space-y-4">
+                            <p className="text-sm text-slate-500">
+                                {active.hasPin ? 'Change the PIN' : 'Set a PIN'} to bring <span className="font-bold text-slate-700">{active.name}</span> back on another device.
+                            </p>
+                            {active.hasPin && (
+                                <input
+                                    value={currentPin}
+                                    onChange={e => setCurrentPin(e.target.value.replace(/\D/g, ''))}
+                                    maxLength={8}
+                                    inputMode="numeric"
+                                    type="password"
+                                    placeholder="Current PIN"
+                                    className={inputClass}
+                                    autoFocus
+                                />
+                            )}
+                            <input
+                                value={pin}
+                                onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                                maxLength={8}
+                                inputMode="numeric"
+                                type="password"
+                                placeholder={active.hasPin ? 'New PIN, 4 to 8 digits' : '4 to 8 digits'}
+                                className={inputClass}
+                                autoFocus={!active.hasPin}
+                            />
+                            <button onClick={handleSetPin} disabled={isBusy || pin.length < 4 || (!!active.hasPin && currentPin.length < 4)} className={primaryClass}>
+                                {isBusy ? 'Saving...' : 'Save PIN'}
+                            </button>
+                            {pinSaved && (
+                                <div className="p-4 rounded-2xl bg-emerald-50 text-center">
+                                    <div className="text-xs font-bold text-emerald-600 uppercase mb-1">Restore Code</div>
+                                    <div className="font-mono text-2xl font-bold text-slate-800 tracking-widest select-all">{getRestoreCode(active)}</div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {panel === 'restore' && (
+                        <div className="space-y-4">
+                            <input
+                                value={code}
+                                onChange={e => setCode(e.target.value.toUpperCase())}
+                                maxLength={8}
+                                placeholder="Restore code"
+                                className={`${inputClass} font-mono tracking-widest`}
+                                autoFocus
+                            />
+                            <input
+                                value={pin}
+                                onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                                maxLength={8}
+                                inputMode="numeric"
+                                type="password"
+                                placeholder="PIN"
+                                className={inputClass}
+                            />
+                            <button onClick={handleRestore} disabled={isBusy || code.length !== 8 || pin.length < 4} className={primaryClass}>
+                                {isBusy ? 'Restoring...' : 'Restore'}
+                            </button>
+                        </div>
+                    )}
+
+                    {message && <p className="mt-3 text-sm font-medium text-rose-500 text-center">{message}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,481 @@
+import React, { useEffect, useRef, useImperativeHandle, forwardRef, useLayoutEffect, useMemo } from 'react';
+import { Piece } from '../types';
+import { DEFAULT_PIECE_THEME, PieceTheme } from '../utils/pieceTheme';
+
+// Canvas renderer for large puzzles. A single DOM node per piece stops scaling somewhere past a
+// hundred pieces, so here every piece is cut out once into a cached bitmap and blitted onto one
+// canvas. Only the rectangles around pieces that changed are redrawn, and pieces being dragged
+// move on a separate overlay canvas so the board underneath stays untouched.
+
+export interface CanvasLayerHandle {
+    beginDrag: (ids: number[]) => void;
+    // Offsets are CSS pixels, the same values the DOM layer puts into translate3d()
+    moveDrag: (dx: number, dy: number, rotations: Record<number, number>, scale: number) => void;
+    endDrag: () => void;
+}
+
+interface PuzzleCanvasLayerProps {
+    pieces: Piece[];
+    puzzleSrc: string;
+    margin: number; // Board percent of scatter area around the board (free-form mode)
+    resolution?: number; // Extra pixel density while the board is zoomed in
+    hintPieceId: number | null;
+    outlines?: Record<number, string>; // Extra outline colour per piece (hint highlights, lock flashes)
+    showPreview: boolean;
+    theme?: PieceTheme;
+    showNumbers?: boolean; // Each piece's correct index on top of it
+    onPointerDown: (e: React.PointerEvent, p: Piece) => void;
+    onDoubleClick: (e: React.MouseEvent, p: Piece) => void;
+    onContextMenu: (e: React.MouseEvent, p: Piece) => void;
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// Past this many dirty rectangles one full redraw is cheaper than clipping each of them
+const MAX_DIRTY_RECTS = 40;
+
+// Largest backing store per canvas. iOS Safari leaves a canvas over 16.7M pixels blank, and both
+// canvases plus the piece bitmaps cut at the same scale have to fit in memory. Zooming past it
+// lets CSS stretch the pixels instead.
+const MAX_CANVAS_PIXELS = 2048 * 2048;
+
+const intersects = (a: Rect, b: Rect) => a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+const PuzzleCanvasLayer = forwardRef<CanvasLayerHandle, PuzzleCanvasLayerProps>(({
+    pieces,
+    puzzleSrc,
+    margin,
+    resolution = 1,
+    hintPieceId,
+    outlines,
+    showPreview,
+    theme = DEFAULT_PIECE_THEME,
+    showNumbers = false,
+    onPointerDown,
+    onDoubleClick,
+    onContextMenu
+}, ref) => {
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const baseRef = useRef<HTMLCanvasElement>(null);
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+
+    const imageRef = useRef<HTMLImageElement | null>(null);
+    const bitmapsRef = useRef<Map<string, HTMLCanvasElement>>(new Map());
+    const pathsRef = useRef<Map<number, Path2D>>(new Map());
+    const hitCtxRef = useRef<CanvasRenderingContext2D | null>(null);
+
+    // Device pixels per board percent, plus everything needed to redraw without React
+    const viewRef = useRef({ sx: 0, sy: 0, dpr: 1, width: 0, height: 0 });
+    const drawnRef = useRef<{ pieces: Map<number, Piece>; hintPieceId: number | null; outlines: Record<number, string> }>({ pieces: new Map(), hintPieceId: null, outlines: {} });
+    const piecesRef = useRef(pieces);
+    const hintRef = useRef(hintPieceId);
+    const outlinesRef = useRef<Record<number, string>>({});
+    const themeRef = useRef(theme);
+    const numbersRef = useRef(showNumbers);
+    const dragRef = useRef<{ ids: Set<number>; lastRect: Rect | null }>({ ids: new Set(), lastRect: null });
+
+    piecesRef.current = pieces;
+    hintRef.current = hintPieceId;
+    const outlineMap = useMemo(() => outlines ?? {}, [outlines]);
+    outlinesRef.current = outlineMap;
+    themeRef.current = theme;
+    numbersRef.current = showNumbers;
+
+    // --- Geometry ---
+
+    // The outline in board percent coordinates, at the piece's solved position
+    const getPath = (piece: Piece): Path2D => {
+        let path = pathsRef.current.get(piece.id);
+        if (!path) {
+            if (piece.pathData) {
+                path = new Path2D(piece.pathData);
+            } else {
+                path = new Path2D();
+                path.rect(piece.correctX, piece.correctY, piece.width, piece.height);
+            }
+            pathsRef.current.set(piece.id, path);
+        }
+        return path;
+    };
+
+    const pieceCenter = (piece: Piece) => {
+        const { sx, sy } = viewRef.current;
+        return {
+            x: (piece.currentX + margin + piece.width / 2) * sx,
+            y: (piece.currentY + margin + piece.height / 2) * sy
+        };
+    };
+
+    // Device pixel box that holds the piece at any rotation (and the hint outline)
+    const pieceBounds = (piece: Piece, dx = 0, dy = 0, scale = 1): Rect => {
+        const { sx, sy, dpr } = viewRef.current;
+        const c = pieceCenter(piece);
+        const radius = Math.hypot(piece.width * sx, piece.height * sy) / 2 * scale + 4 * dpr;
+        return { x: Math.floor(c.x + dx - radius), y: Math.floor(c.y + dy - radius), w: Math.ceil(radius * 2), h: Math.ceil(radius * 2) };
+    };
+
+    // --- Bitmaps ---
+
+    const getBitmap = (piece: Piece): HTMLCanvasElement | null => {
+        const img = imageRef.current;
+        if (!img) return null;
+        const key = `${piece.id}:${piece.isLocked ? 1 : 0}`;
+        const cached = bitmapsRef.current.get(key);
+        if (cached) return cached;
+
+        const { sx, sy, dpr } = viewRef.current;
+        const bitmap = document.createElement('canvas');
+        bitmap.width = Math.max(1, Math.ceil(piece.width * sx));
+        bitmap.height = Math.max(1, Math.ceil(piece.height * sy));
+        const ctx = bitmap.getContext('2d');
+        if (!ctx) return null;
+
+        const path = new Path2D();
+        path.addPath(getPath(piece), new DOMMatrix().scale(sx, sy).translate(-piece.correctX, -piece.correctY));
+
+        // Only copy the part of the image under the piece (padding may reach past the image edge)
+        const x0 = Math.max(0, piece.correctX);
+        const y0 = Math.max(0, piece.correctY);
+        const x1 = Math.min(100, piece.correctX + piece.width);
+        const y1 = Math.min(100, piece.correctY + piece.height);
+
+        ctx.save();
+        ctx.clip(path);
+        if (x1 > x0 && y1 > y0) {
+            ctx.drawImage(
+                img,
+                (x0 / 100) * img.naturalWidth, (y0 / 100) * img.naturalHeight,
+                ((x1 - x0) / 100) * img.naturalWidth, ((y1 - y0) / 100) * img.naturalHeight,
+                (x0 - piece.correctX) * sx, (y0 - piece.correctY) * sy,
+                (x1 - x0) * sx, (y1 - y0) * sy
+            );
+        }
+        ctx.restore();
+
+        // Loose pieces get the same outline as in the DOM layer; locked ones are seamless
+        if (!piece.isLocked) {
+            const { looseBorder, looseBorderWidth, looseShadow } = themeRef.current;
+            if (looseShadow) {
+                ctx.strokeStyle = looseShadow;
+                ctx.lineWidth = (looseBorderWidth + 2) * dpr;
+                ctx.stroke(path);
+            }
+            ctx.strokeStyle = looseBorder;
+            ctx.lineWidth = looseBorderWidth * dpr;
+            ctx.stroke(path);
+        }
+
+        bitmapsRef.current.set(key, bitmap);
+        return bitmap;
+    };
+
+    // --- Drawing ---
+
+    const drawPiece = (ctx: CanvasRenderingContext2D, piece: Piece, dx = 0, dy = 0, rotation = piece.rotation, scale = 1) => {
+        const bitmap = getBitmap(piece);
+        if (!bitmap) return;
+        const { sx, sy, dpr } = viewRef.current;
+        const c = pieceCenter(piece);
+        const w = piece.width * sx;
+        const h = piece.height * sy;
+
+        ctx.save();
+        ctx.translate(c.x + dx, c.y + dy);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.scale(scale, scale);
+        ctx.drawImage(bitmap, -w / 2, -h / 2, w, h);
+
+        const isHint = piece.id === hintRef.current;
+        const color = isHint ? themeRef.current.hint : outlinesRef.current[piece.id];
+        if (color) {
+            const outline = new Path2D();
+            outline.addPath(getPath(piece), new DOMMatrix().translate(-w / 2, -h / 2).scale(sx, sy).translate(-piece.correctX, -piece.correctY));
+            ctx.strokeStyle = color;
+            ctx.lineWidth = (isHint ? 3 : 2) * dpr;
+            ctx.stroke(outline);
+        }
+
+        if (numbersRef.current) {
+            // Centred on the piece's home cell, like the DOM layer's badge
+            const x = (piece.homeX - piece.correctX) * sx - w / 2;
+            const y = (piece.homeY - piece.correctY) * sy - h / 2;
+            const label = String(piece.id + 1);
+            ctx.font = `bold ${10 * dpr}px sans-serif`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            const tw = ctx.measureText(label).width + 4 * dpr;
+            ctx.fillStyle = themeRef.current.numberBackground;
+            ctx.fillRect(x - tw / 2, y - 7 * dpr, tw, 14 * dpr);
+            ctx.fillStyle = themeRef.current.numberText;
+            ctx.fillText(label, x, y);
+        }
+        ctx.restore();
+    };
+
+    // Locked pieces sit underneath, then loose pieces in list order, then the hint target
+    const drawOrder = (list: Piece[]): Piece[] => {
+        const hint = list.find(p => p.id === hintRef.current && !p.isLocked);
+        return [
+            ...list.filter(p => p.isLocked),
+            ...list.filter(p => !p.isLocked && p !== hint),
+            ...(hint ? [hint] : [])
+        ];
+    };
+
+    const redraw = (rects: Rect[] | null) => {
+        const ctx = baseRef.current?.getContext('2d');
+        if (!ctx) return;
+        const { width, height } = viewRef.current;
+        const ordered = drawOrder(piecesRef.current).filter(p => !dragRef.current.ids.has(p.id));
+
+        const regions = rects && rects.length <= MAX_DIRTY_RECTS ? rects : [{ x: 0, y: 0, w: width, h: height }];
+        regions.forEach(rect => {
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(rect.x, rect.y, rect.w, rect.h);
+            ctx.clip();
+            ctx.clearRect(rect.x, rect.y, rect.w, rect.h);
+            ordered.forEach(p => {
+                if (intersects(pieceBounds(p), rect)) drawPiece(ctx, p);
+            });
+            ctx.restore();
+        });
+
+        drawnRef.current = {
+            pieces: new Map(piecesRef.current.map(p => [p.id, p])),
+            hintPieceId: hintRef.current,
+            outlines: outlinesRef.current
+        };
+    };
+
+    // Redraw only around the pieces whose state changed since the last draw
+    const redrawChanged = () => {
+        const drawn = drawnRef.current;
+        if (drawn.pieces.size === 0) {
+            redraw(null);
+            return;
+        }
+
+        const rects: Rect[] = [];
+        piecesRef.current.forEach(p => {
+            const previous = drawn.pieces.get(p.id);
+            if (previous === p) return;
+            rects.push(pieceBounds(p));
+            if (previous) rects.push(pieceBounds(previous));
+        });
+        if (drawn.hintPieceId !== hintRef.current) {
+            [drawn.hintPieceId, hintRef.current].forEach(id => {
+                const p = piecesRef.current.find(piece => piece.id === id);
+                if (p) rects.push(pieceBounds(p));
+            });
+        }
+        if (drawn.outlines !== outlinesRef.current) {
+            const current = outlinesRef.current;
+            piecesRef.current.forEach(p => {
+                if (drawn.outlines[p.id] !== current[p.id]) rects.push(pieceBounds(p));
+            });
+        }
+        if (rects.length > 0) redraw(rects);
+    };
+
+    // --- Setup ---
+
+    // Canvas resolution follows the element size and device pixel ratio, up to MAX_CANVAS_PIXELS;
+    // bitmaps are cut for that scale, so the cap holds them down too
+    useLayoutEffect(() => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper) return;
+
+        const resize = () => {
+            const area = wrapper.clientWidth * wrapper.clientHeight;
+            const dpr = Math.min((window.devicePixelRatio || 1) * resolution, Math.sqrt(MAX_CANVAS_PIXELS / Math.max(1, area)));
+            const width = Math.round(wrapper.clientWidth * dpr);
+            const height = Math.round(wrapper.clientHeight * dpr);
+            if (width === 0 || height === 0) return;
+            [baseRef.current, overlayRef.current].forEach(canvas => {
+                if (canvas) {
+                    canvas.width = width;
+                    canvas.height = height;
+                }
+            });
+            const span = 100 + margin * 2;
+            viewRef.current = { sx: width / span, sy: height / span, dpr, width, height };
+            bitmapsRef.current.clear();
+            redraw(null);
+        };
+
+        resize();
+        const observer = new ResizeObserver(resize);
+        observer.observe(wrapper);
+        return () => observer.disconnect();
+    }, [margin, resolution]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const img = new Image();
+        img.onload = () => {
+            if (cancelled) return;
+            imageRef.current = img;
+            bitmapsRef.current.clear();
+            redraw(null);
+        };
+        img.src = puzzleSrc;
+        return () => { cancelled = true; };
+    }, [puzzleSrc]);
+
+    // A new puzzle reuses ids with different shapes
+    useEffect(() => {
+        const drawn = drawnRef.current.pieces;
+        const reshaped = pieces.some(p => {
+            const previous = drawn.get(p.id);
+            return previous && (previous.pathData !== p.pathData || previous.correctX !== p.correctX || previous.width !== p.width);
+        });
+        if (reshaped || pieces.length !== drawn.size) {
+            pathsRef.current.clear();
+            bitmapsRef.current.clear();
+            redraw(null);
+        } else {
+            redrawChanged();
+        }
+    }, [pieces, hintPieceId, outlineMap]);
+
+    // Theme colours are baked into the bitmaps
+    const firstThemeRef = useRef(true);
+    useEffect(() => {
+        if (firstThemeRef.current) {
+            firstThemeRef.current = false;
+            return;
+        }
+        bitmapsRef.current.clear();
+        redraw(null);
+    }, [theme, showNumbers]);
+
+    // --- Drag overlay ---
+
+    useImperativeHandle(ref, () => ({
+        beginDrag: (ids: number[]) => {
+            dragRef.current = { ids: new Set(ids), lastRect: null };
+            redraw(piecesRef.current.filter(p => ids.includes(p.id)).map(p => pieceBounds(p, 0, 0, 1.2)));
+        },
+        moveDrag: (dx: number, dy: number, rotations: Record<number, number>, scale: number) => {
+            const ctx = overlayRef.current?.getContext('2d');
+            if (!ctx) return;
+            const { dpr } = viewRef.current;
+            const drag = dragRef.current;
+            if (drag.lastRect) ctx.clearRect(drag.lastRect.x, drag.lastRect.y, drag.lastRect.w, drag.lastRect.h);
+
+            const dragged = piecesRef.current.filter(p => drag.ids.has(p.id));
+            let bounds: Rect | null = null;
+            ctx.save();
+            ctx.shadowColor = 'rgba(0,0,0,0.3)';
+            ctx.shadowBlur = 30 * dpr;
+            ctx.shadowOffsetY = 20 * dpr;
+            dragged.forEach(p => {
+                drawPiece(ctx, p, dx * dpr, dy * dpr, rotations[p.id] ?? p.rotation, scale);
+                const b = pieceBounds(p, dx * dpr, dy * dpr, scale);
+                // Leave room for the drop shadow
+                const r = { x: b.x - 40 * dpr, y: b.y - 40 * dpr, w: b.w + 80 * dpr, h: b.h + 80 * dpr };
+                bounds = bounds
+                    ? {
+                        x: Math.min(bounds.x, r.x),
+                        y: Math.min(bounds.y, r.y),
+                        w: Math.max(bounds.x + bounds.w, r.x + r.w) - Math.min(bounds.x, r.x),
+                        h: Math.max(bounds.y + bounds.h, r.y + r.h) - Math.min(bounds.y, r.y)
+                    }
+                    : r;
+            });
+            ctx.restore();
+            drag.lastRect = bounds;
+        },
+        endDrag: () => {
+            const drag = dragRef.current;
+            const ctx = overlayRef.current?.getContext('2d');
+            if (ctx && drag.lastRect) ctx.clearRect(drag.lastRect.x, drag.lastRect.y, drag.lastRect.w, drag.lastRect.h);
+            const ids = [...drag.ids];
+            dragRef.current = { ids: new Set(), lastRect: null };
+            redraw(piecesRef.current.filter(p => ids.includes(p.id)).map(p => pieceBounds(p)));
+        }
+    }));
+
+    // --- Hit testing ---
+
+    // Topmost piece under a screen point, tested against its real outline
+    const hitTest = (clientX: number, clientY: number): Piece | null => {
+        const canvas = baseRef.current;
+        if (!canvas) return null;
+        if (!hitCtxRef.current) hitCtxRef.current = document.createElement('canvas').getContext('2d');
+        const hitCtx = hitCtxRef.current;
+        if (!hitCtx) return null;
+
+        const rect = canvas.getBoundingClientRect();
+        const span = 100 + margin * 2;
+        // CSS pixels per board percent
+        const px = rect.width / span;
+        const py = rect.height / span;
+        const bx = (clientX - rect.left) / px - margin;
+        const by = (clientY - rect.top) / py - margin;
+
+        const ordered = drawOrder(piecesRef.current);
+        for (let i = ordered.length - 1; i >= 0; i--) {
+            const piece = ordered[i];
+            // Undo the rotation around the piece centre (in pixels, where the rotation happens)
+            const cx = piece.currentX + piece.width / 2;
+            const cy = piece.currentY + piece.height / 2;
+            const angle = (-piece.rotation * Math.PI) / 180;
+            const lx = (bx - cx) * px;
+            const ly = (by - cy) * py;
+            const ux = (lx * Math.cos(angle) - ly * Math.sin(angle)) / px;
+            const uy = (lx * Math.sin(angle) + ly * Math.cos(angle)) / py;
+            // Back to the solved position, where the outline path lives
+            const x = ux + piece.correctX + piece.width / 2;
+            const y = uy + piece.correctY + piece.height / 2;
+            if (hitCtx.isPointInPath(getPath(piece), x, y)) return piece;
+        }
+        return null;
+    };
+
+    return (
+        <div
+            ref={wrapperRef}
+            className="absolute touch-none select-none"
+            style={{
+                left: `${-margin}%`,
+                top: `${-margin}%`,
+                width: `${100 + margin * 2}%`,
+                height: `${100 + margin * 2}%`,
+                opacity: showPreview ? 0 : 1,
+                zIndex: 10
+            }}
+        >
+            {/* Pieces are announced by the board's live region, the canvas itself is only pixels */}
+            <canvas
+                ref={baseRef}
+                aria-hidden="true"
+                className="absolute inset-0 w-full h-full"
+                onPointerDown={(e) => {
+                    const piece = hitTest(e.clientX, e.clientY);
+                    if (piece) onPointerDown(e, piece);
+                }}
+                onDoubleClick={(e) => {
+                    const piece = hitTest(e.clientX, e.clientY);
+                    if (piece) onDoubleClick(e, piece);
+                }}
+                onContextMenu={(e) => {
+                    const piece = hitTest(e.clientX, e.clientY);
+                    if (piece) onContextMenu(e, piece);
+                    else e.preventDefault();
+                }}
+            />
+            <canvas ref={overlayRef} aria-hidden="true" className="absolute inset-0 w-full h-full pointer-events-none" />
+        </div>
+    );
+});
+
+PuzzleCanvasLayer.displayName = 'PuzzleCanvasLayer';
+
+export default PuzzleCanvasLayer;
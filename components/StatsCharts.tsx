@@ -0,0 +1,167 @@
+import React from 'react';
+import { ChartPoint, ChartSeries, StreakRun } from '../utils/statsCharts';
+import { formatTime } from '../services/statsService';
+
+// Small hand-drawn charts for the stats view. Bars are plain elements sized in percent;
+// lines are an SVG stretched to the box, with labels kept in HTML so text never distorts.
+
+const EmptyChart: React.FC<{ message: string }> = ({ message }) => (
+    <div className="h-40 flex items-center justify-center text-sm text-slate-400">{message}</div>
+);
+
+interface BarChartProps {
+    data: ChartPoint[];
+    color?: string;
+    formatValue?: (value: number) => string;
+}
+
+export const BarChart: React.FC<BarChartProps> = ({ data, color = 'bg-indigo-500', formatValue = v => v.toLocaleString() }) => {
+    const max = Math.max(0, ...data.map(d => d.value));
+    if (max === 0) return <EmptyChart message="Nothing here yet" />;
+
+    // Labels thin out when there are many bars
+    const labelEvery = Math.ceil(data.length / 8);
+
+    return (
+        <div role="img" aria-label={data.map(d => `${d.label}: ${formatValue(d.value)}`).join(', ')}>
+            <div className="h-40 flex items-end gap-1">
+                {data.map((d, i) => (
+                    <div key={i} className="group relative flex-1 h-full flex items-end">
+                        <div
+                            className={`w-full rounded-t-md ${color} opacity-80 group-hover:opacity-100 transition-opacity`}
+                            style={{ height: `${(d.value / max) * 100}%`, minHeight: d.value > 0 ? 2 : 0 }}
+                        />
+                        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-0.5 rounded bg-slate-800 text-white text-[10px] font-bold whitespace-nowrap opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10">
+                            {d.label}: {formatValue(d.value)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-1 mt-2">
+                {data.map((d, i) => (
+                    <div key={i} className="flex-1 text-center text-[10px] text-slate-400 truncate">
+                        {i % labelEvery === 0 ? d.label : ''}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export interface LineChartSeries extends ChartSeries {
+    label: string;
+    color: string; // Any CSS colour
+}
+
+interface LineChartProps {
+    labels: string[];
+    series: LineChartSeries[];
+}
+
+// Average times, so values are shown as m:ss
+export const TimeLineChart: React.FC<LineChartProps> = ({ labels, series }) => {
+    const values = series.flatMap(s => s.points).filter((v): v is number => v !== null);
+    if (values.length === 0) return <EmptyChart message="Play a few puzzles to see your times" />;
+
+    const max = Math.max(...values) * 1.1;
+    const x = (i: number) => (labels.length > 1 ? (i / (labels.length - 1)) * 100 : 50);
+    const y = (v: number) => 100 - (v / max) * 100;
+    const labelEvery = Math.ceil(labels.length / 6);
+
+    return (
+        <div>
+            <div className="relative h-40">
+                <div className="absolute inset-0 flex flex-col justify-between pointer-events-none">
+                    {[0, 1, 2].map(i => <div key={i} className="border-t border-dashed border-slate-100" />)}
+                </div>
+                <span className="absolute top-0 left-0 text-[10px] text-slate-400">{formatTime(Math.round(max))}</span>
+                <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full overflow-visible" role="img"
+                    aria-label={series.map(s => `${s.label}: ${s.points.map(p => (p === null ? 'none' : formatTime(p))).join(', ')}`).join('; ')}>
+                    {series.map(s => {
+                        // Weeks without a game break the line rather than dropping to zero
+                        const segments: string[][] = [[]];
+                        s.points.forEach((p, i) => {
+                            if (p === null) segments.push([]);
+                            else segments[segments.length - 1].push(`${x(i)},${y(p)}`);
+                        });
+                        return (
+                            <g key={s.id}>
+                                {segments.filter(seg => seg.length > 1).map((seg, i) => (
+                                    <polyline key={i} points={seg.join(' ')} fill="none" stroke={s.color} strokeWidth={2} vectorEffect="non-scaling-stroke" strokeLinejoin="round" />
+                                ))}
+                            </g>
+                        );
+                    })}
+                </svg>
+                {series.map(s => s.points.map((p, i) => p !== null && (
+                    <div
+                        key={`${s.id}-${i}`}
+                        className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full ring-2 ring-white"
+                        style={{ left: `${x(i)}%`, top: `${y(p)}%`, backgroundColor: s.color }}
+                        title={`${s.label}, ${labels[i]}: ${formatTime(p)}`}
+                    />
+                )))}
+            </div>
+            <div className="relative h-4 mt-2">
+                {labels.map((label, i) => i % labelEvery === 0 && (
+                    <span key={i} className="absolute -translate-x-1/2 text-[10px] text-slate-400 whitespace-nowrap" style={{ left: `${x(i)}%` }}>{label}</span>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-4 mt-3">
+                {series.map(s => (
+                    <div key={s.id} className="flex items-center gap-1.5 text-xs font-medium text-slate-500">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: s.color }} />
+                        {s.label}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const RankedBars: React.FC<{ data: ChartPoint[] }> = ({ data }) => {
+    if (data.length === 0) return <EmptyChart message="Nothing here yet" />;
+    const max = data[0].value;
+
+    return (
+        <ol className="space-y-3">
+            {data.map(d => (
+                <li key={d.label}>
+                    <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium text-slate-700 truncate">{d.label}</span>
+                        <span className="font-mono font-bold text-slate-500">{d.value}</span>
+                    </div>
+                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-amber-500 rounded-full" style={{ width: `${(d.value / max) * 100}%` }} />
+                    </div>
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const StreakTimeline: React.FC<{ runs: StreakRun[] }> = ({ runs }) => {
+    if (runs.length === 0) return <EmptyChart message="Solve a daily challenge to start a streak" />;
+    const longest = Math.max(...runs.map(r => r.length));
+
+    return (
+        <ol className="space-y-2">
+            {runs.map(run => (
+                <li key={run.start} className="flex items-center gap-3">
+                    <span className="w-32 text-xs text-slate-500 whitespace-nowrap">
+                        {run.length === 1 ? formatDay(run.start) : `${formatDay(run.start)} – ${formatDay(run.end)}`}
+                    </span>
+                    <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full rounded-full ${run.length === longest ? 'bg-orange-500' : 'bg-orange-300'}`}
+                            style={{ width: `${(run.length / longest) * 100}%` }}
+                        />
+                    </div>
+                    <span className="w-12 text-right font-mono text-sm font-bold text-slate-600">{run.length}d</span>
+                </li>
+            ))}
+        </ol>
+    );
+};
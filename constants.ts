@@ -1,4 +1,6 @@
-import { PuzzleConfig, Difficulty } from "./types";
+import { PuzzleConfig, Difficulty, PuzzleStyle, PlacementMode, HintType } from "./types";
+import { parseQuestDefinitions } from "./utils/questRules";
+import questData from "./data/quests.json";
 
 // ----------------------------------------------------------------------
 // KEYWORD COLLECTIONS (30 unique terms per category)
@@ -154,22 +156,93 @@ export const INITIAL_PUZZLES: PuzzleConfig[] = [
 ];
 
 export const DIFFICULTY_SETTINGS = {
-  easy: { rows: 3, cols: 3, snapThreshold: 5, rotate: false, hints: 5 },
-  normal: { rows: 5, cols: 5, snapThreshold: 4, rotate: false, hints: 3 },
-  hard: { rows: 7, cols: 7, snapThreshold: 3, rotate: false, hints: 1 },
+  easy: { rows: 3, cols: 3, snapThreshold: 5, rotate: false, hints: 10 },
+  normal: { rows: 5, cols: 5, snapThreshold: 4, rotate: false, hints: 6 },
+  hard: { rows: 7, cols: 7, snapThreshold: 3, rotate: false, hints: 3 },
   expert: { rows: 10, cols: 10, snapThreshold: 2, rotate: false, hints: 0 },
 };
 
-export const QUESTS: import('./types').QuestDefinition[] = [
-  { id: 'q1', title: 'Weekly Warmup', description: 'Complete 5 puzzles of any difficulty.', rewardPoints: 500, type: 'COMPLETE_COUNT', targetValue: 5 },
-  { id: 'q2', title: 'Category Explorer', description: 'Complete 3 puzzles in the featured category.', rewardPoints: 1000, type: 'COMPLETE_CATEGORY', targetValue: 3 }, // targetCategory will be dynamic
-  { id: 'q3', title: 'Speed Demon', description: 'Complete a hard puzzle in under 3 minutes.', rewardPoints: 1500, type: 'SPEED_RUN', targetValue: 180, targetDifficulty: 'hard' },
-  { id: 'q4', title: 'Master of Pieces', description: 'Complete 5 expert puzzles.', rewardPoints: 5000, type: 'COMPLETE_COUNT', targetValue: 5, targetDifficulty: 'expert' },
-  { id: 'q5', title: 'Point Hoarder', description: 'Earn a total of 10,000 points.', rewardPoints: 2000, type: 'EARN_POINTS', targetValue: 10000 },
+// `hints` above is a budget of hint points; each kind of hint spends its cost from it
+export const HINT_TYPES: { id: HintType; label: string; description: string; cost: number }[] = [
+  { id: 'edges', label: 'Border Pieces', description: 'Highlight every loose edge and corner piece', cost: 1 },
+  { id: 'locate', label: 'Where Does It Go?', description: 'Show the spot for the last piece you touched', cost: 2 },
+  { id: 'findPiece', label: 'Fill a Gap', description: 'Pick an empty spot and show the piece that belongs there', cost: 3 },
+  { id: 'autoPlace', label: 'Place a Piece', description: 'Put one piece in its correct spot', cost: 4 },
 ];
 
-export const CHALLENGES: import('./types').QuestDefinition[] = [
-  { id: 'c1', title: 'Daily Warmup', description: 'Complete 1 puzzle today.', rewardPoints: 200, type: 'COMPLETE_COUNT', targetValue: 1 },
-  { id: 'c2', title: 'Quick Thinker', description: 'Complete a normal puzzle in under 1 minute.', rewardPoints: 300, type: 'SPEED_RUN', targetValue: 60, targetDifficulty: 'normal' },
-  { id: 'c3', title: 'Category Explorer', description: 'Complete a puzzle in the featured category.', rewardPoints: 400, type: 'COMPLETE_CATEGORY', targetValue: 1 },
+export const getHintCost = (type: HintType): number => HINT_TYPES.find(h => h.id === type)?.cost ?? 1;
+
+// Custom piece counts offered next to the difficulty presets
+export const PIECE_COUNT_OPTIONS = [48, 100, 300, 500, 1000];
+
+// A grid follows the image's aspect ratio, so it only roughly matches the count it was made for
+const PIECE_COUNT_TOLERANCE = 0.25;
+
+// The preset or custom count a puzzle of `pieceCount` pieces was made for, or null if none fits.
+// Anything close to the difficulty's own size counts as that preset.
+export const getNominalPieceCount = (difficulty: Difficulty, pieceCount: number): number | null => {
+  const { rows, cols } = DIFFICULTY_SETTINGS[difficulty];
+  const fits = (n: number) => Math.abs(pieceCount - n) <= n * PIECE_COUNT_TOLERANCE;
+  if (fits(rows * cols)) return rows * cols;
+  const options = PIECE_COUNT_OPTIONS.filter(fits);
+  if (options.length === 0) return null;
+  return options.reduce((best, n) => Math.abs(pieceCount - n) < Math.abs(pieceCount - best) ? n : best);
+};
+
+// How much bigger or smaller than its difficulty's preset a puzzle is; points, target time and
+// hints grow with it, so a shrunk expert game isn't worth a full one
+export const getSizeScale = (difficulty: Difficulty, pieceCount: number): number => {
+  const { rows, cols } = DIFFICULTY_SETTINGS[difficulty];
+  return (getNominalPieceCount(difficulty, pieceCount) ?? pieceCount) / (rows * cols);
+};
+
+export const getHintBudget = (difficulty: Difficulty, pieceCount: number): number =>
+  Math.round(DIFFICULTY_SETTINGS[difficulty].hints * getSizeScale(difficulty, pieceCount));
+
+// Above this many pieces the board switches from DOM nodes to the canvas renderer
+export const CANVAS_RENDER_THRESHOLD = 150;
+
+// Chaos mode: every `interval` ms loose pieces drift (free-form) or two of them trade places (grid)
+export const CHAOS_SETTINGS = {
+  interval: 8000,
+  driftDistance: 4, // Board percent
+  rotateChance: 0.3,
+  scoreMultiplier: 1.5
+};
+
+export const PUZZLE_STYLES: { id: PuzzleStyle; label: string }[] = [
+  { id: 'classic', label: 'Classic' },
+  { id: 'mosaic', label: 'Mosaic' },
+  { id: 'jigsaw', label: 'Jigsaw' },
+  { id: 'hexagon', label: 'Hexagon' },
+  { id: 'triangle', label: 'Triangle' },
+  { id: 'voronoi', label: 'Stained Glass' },
+];
+
+export const PLACEMENT_MODES: { id: PlacementMode; label: string }[] = [
+  { id: 'grid', label: 'Grid Swap' },
+  { id: 'free', label: 'Free Form' },
+];
+
+// Player profiles pick one of these as their avatar
+export const PROFILE_AVATARS = ['🦊', '🐼', '🐸', '🦁', '🐙', '🦄', '🐢', '🐝', '🦉', '🐳', '🌻', '🚀'];
+
+// Oldest completions are dropped from the history beyond this many
+export const COMPLETION_HISTORY_LIMIT = 500;
+
+// Weekly quests and daily challenges live in data/quests.json so new ones need no code
+export const QUESTS = parseQuestDefinitions(questData.weekly);
+
+export const CHALLENGES = parseQuestDefinitions(questData.daily);
+
+export const ACHIEVEMENTS: import('./types').AchievementDefinition[] = [
+  { id: 'a1', title: 'First Piece', description: 'Complete your first puzzle.', badge: '🧩', tier: 'bronze', type: 'COMPLETE_COUNT', targetValue: 1 },
+  { id: 'a2', title: 'Regular', description: 'Complete 50 puzzles.', badge: '🎨', tier: 'silver', type: 'COMPLETE_COUNT', targetValue: 50 },
+  { id: 'a3', title: 'Grandmaster', description: 'Complete 100 expert puzzles.', badge: '👑', tier: 'gold', type: 'COMPLETE_COUNT', targetValue: 100, targetDifficulty: 'expert' },
+  { id: 'a4', title: 'Self Reliant', description: 'Complete a puzzle without using any hints.', badge: '💡', tier: 'bronze', type: 'NO_HINTS', targetValue: 1 },
+  { id: 'a5', title: 'Unaided Expert', description: 'Complete an expert puzzle without using any hints.', badge: '🧠', tier: 'gold', type: 'NO_HINTS', targetValue: 1, targetDifficulty: 'expert' },
+  { id: 'a6', title: 'Week of Wonders', description: 'Solve the daily challenge 7 days in a row.', badge: '📅', tier: 'silver', type: 'DAILY_STREAK', targetValue: 7 },
+  { id: 'a7', title: 'Devoted', description: 'Solve the daily challenge 30 days in a row.', badge: '🔥', tier: 'gold', type: 'DAILY_STREAK', targetValue: 30 },
+  { id: 'a8', title: 'Tile Sprinter', description: 'Complete a mosaic puzzle in under 2 minutes.', badge: '⚡', tier: 'silver', type: 'SPEED_RUN', targetValue: 120, targetStyle: 'mosaic' },
+  { id: 'a9', title: 'Curator', description: 'Complete every puzzle in a category.', badge: '🏛️', tier: 'gold', type: 'COMPLETE_ALL_IN_CATEGORY', targetValue: 1 },
 ];
\ No newline at end of file
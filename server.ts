@@ -1,10 +1,19 @@
 import "reflect-metadata";
 import express from "express";
-import { DataSource, Entity, PrimaryColumn, Column } from "typeorm";
+import { DataSource, Entity, PrimaryColumn, Column, Index, LessThan, In } from "typeorm";
 import { createServer as createViteServer } from "vite";
 import path from "path";
 import fs from "fs";
 import multer from "multer";
+import crypto from "crypto";
+import { verifyCompletion } from "./utils/verification";
+import { getDailySeed } from "./utils/puzzleUtils";
+import { mergeProfiles, parseProfileData } from "./utils/profileSync";
+import { parseLeaderboardQuery, buildLeaderboard, getWeekStart } from "./utils/leaderboard";
+import type { LeaderboardPlayer, RankedCompletion } from "./utils/leaderboard";
+import { PROFILE_AVATARS, getNominalPieceCount } from "./constants";
+import type { Difficulty } from "./types";
+import type { ProfileData, UserStats, CompletionHistoryEntry } from "./types";
 
 // Setup uploads directory for files
 const UPLOADS_DIR = path.join(process.cwd(), "uploads");
@@ -59,6 +68,182 @@ export class PuzzleRecord {
     timestamp!: number;
 }
 
+// Scores the server has verified by replaying the game's move log
+@Entity("completions")
+@Index(["difficulty", "nominalPieceCount", "isChaosMode"])
+export class CompletionRecord {
+    // Hash of the claim, so the same game can't be submitted twice
+    @PrimaryColumn("text")
+    id!: string;
+
+    @Column("text")
+    puzzleId!: string;
+
+    @Column("text")
+    difficulty!: string;
+
+    @Column("text", { default: "classic" })
+    style!: string;
+
+    @Column("integer")
+    seed!: number;
+
+    @Column("boolean")
+    isChaosMode!: boolean;
+
+    @Column("integer")
+    pieceCount!: number;
+
+    // The preset or custom count the puzzle was made for; boards only rank games of the same size.
+    // 0 until filled in for completions from before it was kept.
+    @Column("integer", { default: 0 })
+    nominalPieceCount!: number;
+
+    @Column("integer")
+    duration!: number;
+
+    @Column("integer")
+    moveCount!: number;
+
+    @Column("integer")
+    score!: number;
+
+    @Column("integer")
+    timestamp!: number;
+
+    // Who to rank it under, from the profile token sent with it; completions without one stay off the leaderboards
+    @Column("text", { nullable: true })
+    profileId!: string | null;
+}
+
+// Handed out as a game starts; the completion brings it back, so its time can be checked
+// against the server's own clock
+@Entity("game_starts")
+export class GameStart {
+    @PrimaryColumn("text")
+    token!: string;
+
+    @Column("text")
+    puzzleId!: string;
+
+    // The layout the game was dealt; the completion has to be a game of this same layout
+    @Column("integer", { default: 0 })
+    seed!: number;
+
+    @Column("integer")
+    issuedAt!: number;
+}
+
+// Saved games can be finished much later, but not ever
+const GAME_START_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// A player's stats, quest progress, completed puzzles and streak, shared by all their devices
+@Entity("user_profiles")
+export class UserProfile {
+    @PrimaryColumn("text")
+    id!: string;
+
+    @Column("simple-json")
+    stats!: UserStats;
+
+    @Column("simple-json")
+    completedIds!: string[];
+
+    @Column("simple-json")
+    hiddenIds!: string[];
+
+    // Added after the first profiles were stored, so older rows have none
+    @Column("simple-json", { nullable: true })
+    history!: CompletionHistoryEntry[] | null;
+
+    @Column("simple-json", { nullable: true })
+    completedRemovedAt!: Record<string, number> | null;
+
+    @Column("simple-json", { nullable: true })
+    hiddenRemovedAt!: Record<string, number> | null;
+
+    @Column("integer")
+    streak!: number;
+
+    @Column("text", { nullable: true })
+    lastWin!: string | null;
+
+    @Column("integer")
+    updatedAt!: number;
+
+    @Column("text", { nullable: true })
+    name!: string | null;
+
+    @Column("text", { nullable: true })
+    avatar!: string | null;
+
+    // Set once the player picks a PIN; without one the profile can't be restored elsewhere
+    @Column("text", { nullable: true })
+    pinHash!: string | null;
+}
+
+// Proves a device may read and change a profile. Handed out when a device first stores the profile
+// (or restores it), and only the hash is kept.
+@Entity("profile_tokens")
+export class ProfileToken {
+    @PrimaryColumn("text")
+    tokenHash!: string;
+
+    @Column("text")
+    profileId!: string;
+
+    @Column("integer")
+    issuedAt!: number;
+}
+
+const hashToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+// What the leaderboards show instead of the profile id, which stays between a player's devices and
+// the server. A hash, so it needs no column and doesn't lead back to the id.
+const publicPlayerId = (profileId: string): string =>
+    crypto.createHash("sha256").update(`player:${profileId}`).digest("hex").slice(0, 16);
+
+// The profile id salts its own PIN
+const hashPin = (pin: string, id: string): string => crypto.scryptSync(pin, id, 32).toString("hex");
+
+const pinMatches = (profile: UserProfile, pin: string): boolean => {
+    if (!profile.pinHash) return false;
+    const expected = Buffer.from(profile.pinHash, "hex");
+    const actual = Buffer.from(hashPin(pin, profile.id), "hex");
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Restore codes are short, so wrong PINs are counted and the code is shut for a while. Counts are
+// kept per client and code, so guessing at someone's code doesn't lock its owner out, and stored
+// so a restart doesn't clear them.
+@Entity("restore_attempts")
+export class RestoreAttempt {
+    // Client address and restore code
+    @PrimaryColumn("text")
+    key!: string;
+
+    @Column("integer")
+    count!: number;
+
+    @Column("integer")
+    since!: number;
+}
+
+const RESTORE_MAX_ATTEMPTS = 5;
+const RESTORE_LOCKOUT_MS = 15 * 60 * 1000;
+
+const toProfileData = (profile: UserProfile): ProfileData => ({
+    stats: profile.stats,
+    completedIds: profile.completedIds,
+    completedRemovedAt: profile.completedRemovedAt ?? {},
+    hiddenIds: profile.hiddenIds,
+    hiddenRemovedAt: profile.hiddenRemovedAt ?? {},
+    history: profile.history ?? [],
+    streak: profile.streak,
+    lastWin: profile.lastWin,
+    updatedAt: profile.updatedAt
+});
+
 // -----------------------------------------------------
 // 2. Initialize DataSource
 // -----------------------------------------------------
@@ -67,12 +252,37 @@ const AppDataSource = new DataSource({
     database: "database.sqlite",
     synchronize: true, // Auto schema sync
     logging: false,
-    entities: [PuzzleRecord],
+    entities: [PuzzleRecord, CompletionRecord, GameStart, UserProfile, ProfileToken, RestoreAttempt],
 });
 
 async function startServer() {
     await AppDataSource.initialize();
     const puzzleDao = AppDataSource.getRepository(PuzzleRecord);
+    const completionDao = AppDataSource.getRepository(CompletionRecord);
+    const gameStartDao = AppDataSource.getRepository(GameStart);
+    const profileDao = AppDataSource.getRepository(UserProfile);
+    const tokenDao = AppDataSource.getRepository(ProfileToken);
+    const restoreAttemptDao = AppDataSource.getRepository(RestoreAttempt);
+
+    // Completions from before boards were split by size get theirs from the piece count they kept
+    for (const completion of await completionDao.find({ where: { nominalPieceCount: 0 } })) {
+        const nominalPieceCount = getNominalPieceCount(completion.difficulty as Difficulty, completion.pieceCount) ?? completion.pieceCount;
+        await completionDao.update(completion.id, { nominalPieceCount });
+    }
+
+    const issueToken = async (profileId: string): Promise<string> => {
+        const token = crypto.randomBytes(32).toString("hex");
+        await tokenDao.save(tokenDao.create({ tokenHash: hashToken(token), profileId, issuedAt: Date.now() }));
+        return token;
+    };
+
+    // The profile the request's "Authorization: Bearer <token>" header belongs to, if any
+    const findTokenOwner = async (req: express.Request): Promise<string | null> => {
+        const match = /^Bearer (\S+)$/.exec(req.get("Authorization") ?? "");
+        if (!match) return null;
+        const token = await tokenDao.findOne({ where: { tokenHash: hashToken(match[1]) } });
+        return token?.profileId ?? null;
+    };
 
     const app = express();
     app.use(express.json({ limit: "50mb" }));
@@ -179,6 +389,258 @@ async function startServer() {
         res.json({ success: true });
     });
 
+    app.post("/api/games", async (req, res) => {
+        try {
+            const puzzleId = req.body?.puzzleId;
+            const seed = req.body?.seed;
+            if (typeof puzzleId !== "string" || puzzleId.length === 0) {
+                res.status(400).json({ error: "Missing puzzle id" });
+                return;
+            }
+            if (!Number.isInteger(seed) || seed <= 0 || seed > 0xffffffff) {
+                res.status(400).json({ error: "Invalid seed" });
+                return;
+            }
+            // Everyone plays the same daily layout
+            const dailySeed = getDailySeed(puzzleId);
+            if (dailySeed !== null && seed !== dailySeed) {
+                res.status(400).json({ error: "Seed doesn't match the daily puzzle" });
+                return;
+            }
+            await gameStartDao.delete({ issuedAt: LessThan(Date.now() - GAME_START_MAX_AGE_MS) });
+            const token = crypto.randomBytes(24).toString("hex");
+            await gameStartDao.save(gameStartDao.create({ token, puzzleId, seed, issuedAt: Date.now() }));
+            res.json({ token });
+        } catch (e: any) {
+            console.error("ERROR IN POST /api/games:", e);
+            res.status(500).json({ error: e.message });
+        }
+    });
+
+    // A finished game is only scored once its move log replays to a solved puzzle
+    app.post("/api/completions", async (req, res) => {
+        try {
+            const startToken = req.body?.startToken;
+            const start = typeof startToken === "string"
+                ? await gameStartDao.findOne({ where: { token: startToken } })
+                : null;
+            if (!start || start.puzzleId !== req.body.puzzleId || start.seed !== req.body.seed) {
+                res.status(400).json({ error: "Unknown game start" });
+                return;
+            }
+
+            const verdict = verifyCompletion(req.body, Date.now() - start.issuedAt);
+            if ("reason" in verdict) {
+                console.warn("Rejected completion claim:", verdict.reason);
+                res.status(400).json({ error: verdict.reason });
+                return;
+            }
+
+            const claim = req.body;
+            const id = crypto.createHash("sha256")
+                .update(JSON.stringify([claim.puzzleId, claim.seed, claim.events]))
+                .digest("hex");
+            if (await completionDao.findOne({ where: { id } })) {
+                res.status(409).json({ error: "Completion already submitted" });
+                return;
+            }
+
+            await completionDao.save(completionDao.create({
+                id,
+                puzzleId: claim.puzzleId,
+                difficulty: claim.difficulty,
+                style: claim.style,
+                seed: claim.seed,
+                isChaosMode: !!claim.isChaosMode,
+                pieceCount: verdict.pieceCount,
+                nominalPieceCount: getNominalPieceCount(claim.difficulty, verdict.pieceCount) ?? verdict.pieceCount,
+                duration: claim.duration,
+                moveCount: verdict.moveCount,
+                score: verdict.score,
+                timestamp: Date.now(),
+                profileId: await findTokenOwner(req)
+            }));
+            // Each start is good for one completion
+            await gameStartDao.delete({ token: start.token });
+            res.json({ success: true, score: verdict.score, breakdown: verdict.breakdown, moveCount: verdict.moveCount });
+        } catch (e: any) {
+            console.error("ERROR IN POST /api/completions:", e);
+            res.status(500).json({ error: e.message });
+        }
+    });
+
+    // e.g. /api/leaderboards?metric=time&puzzleId=daily-Mon-Oct-19-2026 or ?metric=score&period=week
+    app.get("/api/leaderboards", async (req, res) => {
+        try {
+            const query = parseLeaderboardQuery(req.query);
+            if (typeof query === "string") {
+                res.status(400).json({ error: query });
+                return;
+            }
+
+            // Each player's best game on the board is ranked by the database, which hands back the top
+            // rows and the asking player's own row wherever it places
+            const order = query.metric === "time" ? "duration ASC, timestamp ASC" : "score DESC, timestamp ASC";
+            const conditions = ["profileId IS NOT NULL", "difficulty = ?", "nominalPieceCount = ?", "isChaosMode = ?"];
+            const params: unknown[] = [query.difficulty, query.pieceCount, query.isChaosMode ? 1 : 0];
+            if (query.puzzleId) { conditions.push("puzzleId = ?"); params.push(query.puzzleId); }
+            if (query.style) { conditions.push("style = ?"); params.push(query.style); }
+            if (query.period === "week") { conditions.push("timestamp >= ?"); params.push(getWeekStart()); }
+            const playerProfileId = await findTokenOwner(req);
+            const completions: RankedCompletion[] = await completionDao.query(`
+                SELECT * FROM (
+                    SELECT *, ROW_NUMBER() OVER (ORDER BY ${order}) AS rank FROM (
+                        SELECT profileId, puzzleId, difficulty, style, duration, score, moveCount, timestamp,
+                            ROW_NUMBER() OVER (PARTITION BY profileId ORDER BY ${order}) AS playerBest
+                        FROM completions WHERE ${conditions.join(" AND ")}
+                    ) WHERE playerBest = 1
+                ) WHERE rank <= ? OR profileId = ?
+                ORDER BY rank`,
+                [...params, query.limit, playerProfileId]
+            );
+
+            const profileIds = Array.from(new Set<string>(completions.map(c => c.profileId)));
+            const profiles = profileIds.length > 0
+                ? await profileDao.find({ where: { id: In(profileIds) }, select: ["id", "name", "avatar"] })
+                : [];
+            const players = new Map<string, LeaderboardPlayer>(profileIds.map(id => {
+                const profile = profiles.find(p => p.id === id);
+                return [id, { playerId: publicPlayerId(id), name: profile?.name ?? "Player", avatar: profile?.avatar ?? PROFILE_AVATARS[0] }];
+            }));
+
+            res.json(buildLeaderboard(completions, query, players, playerProfileId));
+        } catch (e: any) {
+            console.error("ERROR IN GET /api/leaderboards:", e);
+            res.status(500).json({ error: e.message });
+        }
+    });
+
+    app.get("/api/profiles/:id", async (req, res) => {
+        if (await findTokenOwner(req) !== req.params.id) {
+            res.status(403).json({ error: "Not your profile" });
+            return;
+        }
+        const profile = await profileDao.findOne({ where: { id: req.params.id } });
+        if (profile) {
+            res.json(toProfileData(profile));
+        } else {
+            res.status(404).json({ error: "Not found" });
+        }
+    });
+
+    // Devices send their whole profile and get back the merge of it and the stored one. The first
+    // device to store a profile gets its token back as well.
+    app.put("/api/profiles/:id", async (req, res) => {
+        try {
+            const incoming = parseProfileData(req.body);
+            if (!incoming) {
+                res.status(400).json({ error: "Invalid profile" });
+                return;
+            }
+
+            const stored = await profileDao.findOne({ where: { id: req.params.id } });
+            const isOwner = await findTokenOwner(req) === req.params.id;
+            // Profiles stored before tokens existed go to the first device that syncs them
+            if (!isOwner && stored && await tokenDao.countBy({ profileId: stored.id }) > 0) {
+                res.status(403).json({ error: "Not your profile" });
+                return;
+            }
+
+            const merged = stored ? mergeProfiles(toProfileData(stored), incoming) : incoming;
+            const record = profileDao.create({ id: req.params.id, ...merged });
+            if (typeof req.body.name === "string") record.name = req.body.name.slice(0, 40);
+            if (typeof req.body.avatar === "string") record.avatar = req.body.avatar.slice(0, 16);
+            await profileDao.save(record);
+            const token = isOwner ? undefined : await issueToken(req.params.id);
+            res.json({ profile: merged, token });
+        } catch (e: any) {
+            console.error("ERROR IN PUT /api/profiles:", e);
+            res.status(500).json({ error: e.message });
+        }
+    });
+
+    // Changing a PIN takes the profile's token and, once one is set, the current PIN
+    app.put("/api/profiles/:id/pin", async (req, res) => {
+        try {
+            const { pin, currentPin } = req.body ?? {};
+            if (typeof pin !== "string" || !/^\d{4,8}$/.test(pin)) {
+                res.status(400).json({ error: "PIN must be 4 to 8 digits" });
+                return;
+            }
+            if (await findTokenOwner(req) !== req.params.id) {
+                res.status(403).json({ error: "Not your profile" });
+                return;
+            }
+            const profile = await profileDao.findOne({ where: { id: req.params.id } });
+            if (!profile) {
+                res.status(404).json({ error: "Not found" });
+                return;
+            }
+            if (profile.pinHash && typeof currentPin !== "string") {
+                res.status(409).json({ error: "Enter your current PIN" });
+                return;
+            }
+            if (profile.pinHash && !pinMatches(profile, currentPin)) {
+                res.status(403).json({ error: "Current PIN is wrong" });
+                return;
+            }
+            profile.pinHash = hashPin(pin, profile.id);
+            await profileDao.save(profile);
+            res.json({ success: true });
+        } catch (e: any) {
+            console.error("ERROR IN PUT /api/profiles/pin:", e);
+            res.status(500).json({ error: e.message });
+        }
+    });
+
+    // A restore code is the start of the profile id; with the right PIN the whole profile comes
+    // back, along with a token of this device's own
+    app.post("/api/profiles/restore", async (req, res) => {
+        try {
+            const { code, pin } = req.body ?? {};
+            if (typeof code !== "string" || !/^[0-9a-fA-F]{8}$/.test(code) || typeof pin !== "string") {
+                res.status(400).json({ error: "Enter the 8 character code and your PIN" });
+                return;
+            }
+            const prefix = code.toLowerCase();
+            const key = `${req.ip}|${prefix}`;
+            // Lockouts that have run out are cleared for everyone
+            await restoreAttemptDao.delete({ since: LessThan(Date.now() - RESTORE_LOCKOUT_MS) });
+            const attempts = await restoreAttemptDao.findOne({ where: { key } });
+            if (attempts && attempts.count >= RESTORE_MAX_ATTEMPTS) {
+                res.status(429).json({ error: "Too many attempts, try again later" });
+                return;
+            }
+
+            const candidates = await profileDao.createQueryBuilder("profile")
+                .where("profile.pinHash IS NOT NULL")
+                .andWhere("REPLACE(profile.id, '-', '') LIKE :prefix", { prefix: `${prefix}%` })
+                .getMany();
+            const profile = candidates.find(p => pinMatches(p, pin));
+            if (!profile) {
+                await restoreAttemptDao.save(restoreAttemptDao.create({
+                    key,
+                    count: (attempts?.count ?? 0) + 1,
+                    since: attempts?.since ?? Date.now()
+                }));
+                res.status(403).json({ error: "Code or PIN is wrong" });
+                return;
+            }
+
+            await restoreAttemptDao.delete({ key });
+            res.json({
+                id: profile.id,
+                name: profile.name ?? "Player",
+                avatar: profile.avatar ?? PROFILE_AVATARS[0],
+                token: await issueToken(profile.id),
+                profile: toProfileData(profile)
+            });
+        } catch (e: any) {
+            console.error("ERROR IN POST /api/profiles/restore:", e);
+            res.status(500).json({ error: e.message });
+        }
+    });
+
     // --- Vite Middleware ---
     if (process.env.NODE_ENV !== "production") {
         const vite = await createViteServer({
@@ -0,0 +1,121 @@
+import { LocalProfile } from '../types';
+import { PROFILE_AVATARS } from '../constants';
+
+// Several players can share a device. Each profile keeps its data under its own key prefix
+// (`mosaic_<profileId>_<name>`); the list of profiles and the active one are device-wide.
+
+const PROFILES_KEY = 'mosaic_profiles';
+const ACTIVE_PROFILE_KEY = 'mosaic_active_profile';
+const DEVICE_ID_KEY = 'mosaic_device_id';
+
+// Data from before profiles existed, moved into the first profile on first start
+const LEGACY_PROFILE_ID_KEY = 'mosaic_profile_id';
+const LEGACY_KEYS = ['user_stats', 'completed_ids', 'hidden_ids', 'streak', 'last_win', 'profile_updated'];
+const LEGACY_PREFIXES = ['save_', 'replay_'];
+
+const storeProfiles = (profiles: LocalProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const migrateLegacyData = (): LocalProfile => {
+  const profile: LocalProfile = {
+    id: localStorage.getItem(LEGACY_PROFILE_ID_KEY) || crypto.randomUUID(),
+    name: 'Player 1',
+    avatar: PROFILE_AVATARS[0]
+  };
+
+  const moves: [string, string][] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith('mosaic_')) continue;
+    const name = key.slice('mosaic_'.length);
+    if (LEGACY_KEYS.includes(name) || LEGACY_PREFIXES.some(prefix => name.startsWith(prefix))) {
+      moves.push([key, profileKey(name, profile.id)]);
+    }
+  }
+  moves.forEach(([from, to]) => {
+    const value = localStorage.getItem(from);
+    if (value !== null) localStorage.setItem(to, value);
+    localStorage.removeItem(from);
+  });
+  localStorage.removeItem(LEGACY_PROFILE_ID_KEY);
+
+  storeProfiles([profile]);
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  return profile;
+};
+
+export const loadProfiles = (): LocalProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+    }
+  } catch (e) {
+    console.error("Failed to load profiles", e);
+  }
+  return [migrateLegacyData()];
+};
+
+export const getActiveProfile = (): LocalProfile => {
+  const profiles = loadProfiles();
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.find(p => p.id === activeId) ?? profiles[0];
+};
+
+// Tells this device's points apart from other devices' when profiles are merged
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+// Storage key for the active (or given) profile's copy of `name`
+export const profileKey = (name: string, profileId: string = getActiveProfile().id): string => `mosaic_${profileId}_${name}`;
+
+// Requests that read or change the profile on the server have to carry its token
+export const getAuthHeaders = (profile: LocalProfile = getActiveProfile()): Record<string, string> =>
+  profile.token ? { Authorization: `Bearer ${profile.token}` } : {};
+
+// A short code the player types on another device, together with their PIN
+export const getRestoreCode = (profile: LocalProfile): string => profile.id.replace(/-/g, '').slice(0, 8).toUpperCase();
+
+export const createProfile = (name: string, avatar: string): LocalProfile => {
+  const profile: LocalProfile = { id: crypto.randomUUID(), name: name.trim() || 'Player', avatar };
+  storeProfiles([...loadProfiles(), profile]);
+  return profile;
+};
+
+// A profile restored from the server; replaces any copy already on this device
+export const addProfile = (profile: LocalProfile) => {
+  storeProfiles([...loadProfiles().filter(p => p.id !== profile.id), profile]);
+};
+
+export const updateProfile = (id: string, changes: Partial<Omit<LocalProfile, 'id'>>) => {
+  storeProfiles(loadProfiles().map(p => (p.id === id ? { ...p, ...changes } : p)));
+};
+
+export const switchProfile = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+// Forgets a profile and everything it stored on this device; its server copy stays restorable
+export const removeProfile = (id: string) => {
+  const remaining = loadProfiles().filter(p => p.id !== id);
+  if (remaining.length === 0) return;
+
+  const prefix = profileKey('', id);
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(prefix)) keys.push(key);
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+
+  storeProfiles(remaining);
+  if (localStorage.getItem(ACTIVE_PROFILE_KEY) === id) switchProfile(remaining[0].id);
+};
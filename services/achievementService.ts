@@ -0,0 +1,66 @@
+import { AchievementDefinition, CompletionHistoryEntry, UserStats } from '../types';
+import { ACHIEVEMENTS } from '../constants';
+import { loadUserStats, saveUserStats } from './statsService';
+import { streakHistory } from '../utils/statsCharts';
+
+// Achievements are worked out from the completion history rather than counted up game by
+// game, so games played before an achievement existed count towards it too.
+
+export interface AchievementContext {
+  history: CompletionHistoryEntry[];
+  completedIds: Set<string>;
+  categories: Record<string, string[]>; // Category -> ids of its puzzles
+}
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+}
+
+const matchesTarget = (def: AchievementDefinition, e: CompletionHistoryEntry) =>
+  (!def.targetDifficulty || e.difficulty === def.targetDifficulty) && (!def.targetStyle || e.style === def.targetStyle);
+
+export const getAchievementProgress = (def: AchievementDefinition, { history, completedIds, categories }: AchievementContext): AchievementProgress => {
+  const games = history.filter(e => matchesTarget(def, e));
+
+  switch (def.type) {
+    case 'COMPLETE_COUNT':
+      return { current: games.length, target: def.targetValue };
+    case 'NO_HINTS':
+      return { current: games.filter(e => e.hintsUsed === 0).length, target: def.targetValue };
+    case 'SPEED_RUN':
+      return { current: games.some(e => e.duration < def.targetValue) ? 1 : 0, target: 1 };
+    case 'DAILY_STREAK':
+      return { current: Math.max(0, ...streakHistory(history).map(r => r.length)), target: def.targetValue };
+    case 'COMPLETE_ALL_IN_CATEGORY': {
+      // The category closest to done
+      let best: AchievementProgress = { current: 0, target: 1 };
+      Object.values(categories).forEach(ids => {
+        if (ids.length === 0) return;
+        const done = ids.filter(id => completedIds.has(id)).length;
+        if (done / ids.length > best.current / best.target) best = { current: done, target: ids.length };
+      });
+      return best;
+    }
+  }
+};
+
+export const isAchievementUnlocked = (stats: UserStats, id: string): boolean => !!stats.achievements?.[id];
+
+// Records any achievements the player has now earned and returns just those
+export const unlockAchievements = (context: AchievementContext): AchievementDefinition[] => {
+  const stats = loadUserStats();
+  const now = Date.now();
+  const unlocked = ACHIEVEMENTS.filter(def => {
+    if (isAchievementUnlocked(stats, def.id)) return false;
+    const { current, target } = getAchievementProgress(def, context);
+    return current >= target;
+  });
+
+  if (unlocked.length > 0) {
+    stats.achievements = { ...stats.achievements };
+    unlocked.forEach(def => { stats.achievements![def.id] = now; });
+    saveUserStats(stats);
+  }
+  return unlocked;
+};
@@ -0,0 +1,29 @@
+import { AssistSettings } from '../types';
+
+const ASSIST_KEY = 'mosaic_assist_settings';
+
+export const DEFAULT_ASSIST_SETTINGS: AssistSettings = {
+  highContrast: false,
+  showNumbers: false,
+  showCoordinates: false,
+  colorBlindPalette: false,
+  largePieces: false
+};
+
+export const loadAssistSettings = (): AssistSettings => {
+  try {
+    const stored = localStorage.getItem(ASSIST_KEY);
+    if (stored) return { ...DEFAULT_ASSIST_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Failed to load assist settings", e);
+  }
+  return DEFAULT_ASSIST_SETTINGS;
+};
+
+export const saveAssistSettings = (settings: AssistSettings) => {
+  try {
+    localStorage.setItem(ASSIST_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save assist settings", e);
+  }
+};
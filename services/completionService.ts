@@ -0,0 +1,69 @@
+import { CompletionClaim, GameReplay, ScoreBreakdown } from '../types';
+import { getAuthHeaders } from './accountService';
+
+export type VerificationStatus = 'pending' | 'verified' | 'rejected' | 'offline';
+
+export interface VerifiedScore {
+  score: number;
+  breakdown: ScoreBreakdown;
+  moveCount: number;
+}
+
+// The server notes the moment each game starts, so a finished game's time can be checked against
+// its own clock, along with the seed it was dealt. Null when it can't be reached; that game still
+// counts locally but can't be verified.
+export const requestGameStart = async (puzzleId: string, seed: number): Promise<string | null> => {
+  try {
+    const response = await fetch('/api/games', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ puzzleId, seed })
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return typeof data.token === 'string' ? data.token : null;
+  } catch (e) {
+    console.warn("Couldn't register the game start", e);
+    return null;
+  }
+};
+
+export const buildCompletionClaim = (replay: GameReplay, startToken: string): CompletionClaim => ({
+  puzzleId: replay.puzzleId,
+  difficulty: replay.difficulty,
+  style: replay.style,
+  placementMode: replay.placementMode,
+  rotationMode: replay.rotationMode,
+  isChaosMode: replay.isChaosMode,
+  grid: replay.grid,
+  seed: replay.seed,
+  duration: replay.duration,
+  events: replay.events,
+  startToken
+});
+
+// The server replays the move log and answers with the score it worked out itself.
+// A rejected claim still counts locally; it just never reaches the leaderboards.
+export const submitCompletion = async (replay: GameReplay, startToken: string | null): Promise<{ status: VerificationStatus; verified?: VerifiedScore }> => {
+  // Started offline, so there's no start time to check against
+  if (!startToken) return { status: 'offline' };
+  try {
+    const response = await fetch('/api/completions', {
+      method: 'POST',
+      // The profile token, not anything in the claim, says whose game it was
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify(buildCompletionClaim(replay, startToken))
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      console.warn("Completion not verified:", data.error ?? response.status);
+      // Server trouble isn't the game's fault
+      return { status: response.status >= 500 ? 'offline' : 'rejected' };
+    }
+    const data = await response.json();
+    return { status: 'verified', verified: { score: data.score, breakdown: data.breakdown, moveCount: data.moveCount } };
+  } catch (e) {
+    console.error("Failed to submit completion", e);
+    return { status: 'offline' };
+  }
+};
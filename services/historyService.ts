@@ -0,0 +1,66 @@
+import { CompletionHistoryEntry, PuzzleBests } from '../types';
+import { COMPLETION_HISTORY_LIMIT } from '../constants';
+import { markProfileChanged } from './profileService';
+import { profileKey } from './accountService';
+
+// Every finished game, newest first, stored per player profile
+const HISTORY_KEY = 'history';
+
+export const loadHistory = (): CompletionHistoryEntry[] => {
+  try {
+    const stored = localStorage.getItem(profileKey(HISTORY_KEY));
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.error("Failed to load history", e);
+  }
+  return [];
+};
+
+export const saveHistory = (history: CompletionHistoryEntry[]) => {
+  try {
+    localStorage.setItem(profileKey(HISTORY_KEY), JSON.stringify(history.slice(0, COMPLETION_HISTORY_LIMIT)));
+    markProfileChanged();
+  } catch (e) {
+    console.error("Failed to save history", e);
+  }
+};
+
+export const recordCompletion = (entry: CompletionHistoryEntry): CompletionHistoryEntry[] => {
+  const history = [entry, ...loadHistory()];
+  saveHistory(history);
+  return history;
+};
+
+// Bests across every difficulty and style each puzzle was played at
+export const getAllPuzzleBests = (history: CompletionHistoryEntry[]): Record<string, PuzzleBests> => {
+  const bests: Record<string, PuzzleBests> = {};
+  history.forEach(e => {
+    const current = bests[e.puzzleId];
+    bests[e.puzzleId] = current
+      ? {
+          bestTime: Math.min(current.bestTime, e.duration),
+          bestScore: Math.max(current.bestScore, e.score),
+          lastPlayed: Math.max(current.lastPlayed, e.completedAt),
+          timesCompleted: current.timesCompleted + 1
+        }
+      : { bestTime: e.duration, bestScore: e.score, lastPlayed: e.completedAt, timesCompleted: 1 };
+  });
+  return bests;
+};
+
+// Null if the puzzle was never finished
+export const getPuzzleBests = (history: CompletionHistoryEntry[], puzzleId: string): PuzzleBests | null =>
+  getAllPuzzleBests(history.filter(e => e.puzzleId === puzzleId))[puzzleId] ?? null;
+
+// "Today", "Yesterday", "3 days ago", then the date
+export const formatLastPlayed = (timestamp: number): string => {
+  const startOfToday = new Date().setHours(0, 0, 0, 0);
+  const days = Math.ceil((startOfToday - timestamp) / 86400000);
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  if (days < 7) return `${days} days ago`;
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
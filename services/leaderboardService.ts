@@ -0,0 +1,25 @@
+import { Leaderboard, LeaderboardQuery } from '../types';
+import { getAuthHeaders } from './accountService';
+
+// The profile token tells the server whose standing to include. Returns null when the leaderboard can't be reached, so callers can show an offline state
+export const fetchLeaderboard = async (query: LeaderboardQuery): Promise<Leaderboard | null> => {
+  const params = new URLSearchParams({
+    metric: query.metric,
+    difficulty: query.difficulty,
+    pieces: String(query.pieceCount),
+    chaos: String(query.isChaosMode)
+  });
+  if (query.period) params.set('period', query.period);
+  if (query.puzzleId) params.set('puzzleId', query.puzzleId);
+  if (query.style) params.set('style', query.style);
+  if (query.limit) params.set('limit', String(query.limit));
+
+  try {
+    const response = await fetch(`/api/leaderboards?${params}`, { headers: getAuthHeaders() });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (e) {
+    console.error("Failed to load leaderboard", e);
+    return null;
+  }
+};
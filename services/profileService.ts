@@ -0,0 +1,195 @@
+import { ProfileData, LocalProfile } from '../types';
+import { loadUserStats, saveUserStats } from './statsService';
+import { loadHistory, saveHistory } from './historyService';
+import { getActiveProfile, profileKey, addProfile, switchProfile, updateProfile, getAuthHeaders } from './accountService';
+
+// The player's progress is kept in localStorage and mirrored to the server, so clearing the
+// browser or switching devices doesn't lose it. The server merges every copy it is sent and
+// answers with the result; without a connection the local copy simply carries on.
+
+// Keys of the active profile (see accountService)
+const PROFILE_UPDATED_KEY = 'profile_updated';
+const COMPLETED_KEY = 'completed_ids';
+const COMPLETED_REMOVED_KEY = 'completed_removed';
+const HIDDEN_KEY = 'hidden_ids';
+const HIDDEN_REMOVED_KEY = 'hidden_removed';
+const STREAK_KEY = 'streak';
+const LAST_WIN_KEY = 'last_win';
+
+// Every local change moves the profile's timestamp, which the merge uses to order resets
+export const markProfileChanged = () => {
+  try {
+    localStorage.setItem(profileKey(PROFILE_UPDATED_KEY), Date.now().toString());
+  } catch (e) {
+    console.error("Failed to mark profile changed", e);
+  }
+};
+
+const loadIdList = (key: string): string[] => {
+  try {
+    const stored = localStorage.getItem(profileKey(key));
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.error(`Failed to load ${key}`, e);
+  }
+  return [];
+};
+
+// Id -> when it was taken off its list
+const loadRemovedIds = (key: string): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(profileKey(key));
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === 'object') return parsed;
+    }
+  } catch (e) {
+    console.error(`Failed to load ${key}`, e);
+  }
+  return {};
+};
+
+// Ids left out of the new list are noted as removed, so the server's copy doesn't bring them back
+const saveIdList = (key: string, removedKey: string, ids: string[]) => {
+  const kept = new Set(ids);
+  const removed = loadRemovedIds(removedKey);
+  const now = Date.now();
+  loadIdList(key).forEach(id => {
+    if (!kept.has(id)) removed[id] = now;
+  });
+  ids.forEach(id => { delete removed[id]; });
+  localStorage.setItem(profileKey(key), JSON.stringify(ids));
+  localStorage.setItem(profileKey(removedKey), JSON.stringify(removed));
+  markProfileChanged();
+};
+
+export const loadCompletedIds = (): string[] => loadIdList(COMPLETED_KEY);
+
+export const saveCompletedIds = (ids: string[]) => saveIdList(COMPLETED_KEY, COMPLETED_REMOVED_KEY, ids);
+
+export const loadHiddenIds = (): string[] => loadIdList(HIDDEN_KEY);
+
+export const saveHiddenIds = (ids: string[]) => saveIdList(HIDDEN_KEY, HIDDEN_REMOVED_KEY, ids);
+
+export const loadStreak = (): { streak: number; lastWin: string | null } => ({
+  streak: parseInt(localStorage.getItem(profileKey(STREAK_KEY)) || '0') || 0,
+  lastWin: localStorage.getItem(profileKey(LAST_WIN_KEY))
+});
+
+export const saveStreak = (streak: number, lastWin: string | null) => {
+  localStorage.setItem(profileKey(STREAK_KEY), streak.toString());
+  if (lastWin) localStorage.setItem(profileKey(LAST_WIN_KEY), lastWin);
+  markProfileChanged();
+};
+
+// A streak only lasts while the last daily win was today or yesterday
+export const getActiveStreak = ({ streak, lastWin }: { streak: number; lastWin: string | null }): number => {
+  const today = new Date().toDateString();
+  const yesterday = new Date(Date.now() - 86400000).toDateString();
+  return lastWin && lastWin !== today && lastWin !== yesterday ? 0 : streak;
+};
+
+export const loadLocalProfile = (): ProfileData => {
+  const { streak, lastWin } = loadStreak();
+  return {
+    stats: loadUserStats(),
+    completedIds: loadCompletedIds(),
+    completedRemovedAt: loadRemovedIds(COMPLETED_REMOVED_KEY),
+    hiddenIds: loadHiddenIds(),
+    hiddenRemovedAt: loadRemovedIds(HIDDEN_REMOVED_KEY),
+    history: loadHistory(),
+    streak,
+    lastWin,
+    updatedAt: parseInt(localStorage.getItem(profileKey(PROFILE_UPDATED_KEY)) || '0') || 0
+  };
+};
+
+// Writing the merged copy isn't a local change, so the server's timestamp is kept
+const saveLocalProfile = (profile: ProfileData) => {
+  saveUserStats(profile.stats);
+  localStorage.setItem(profileKey(COMPLETED_KEY), JSON.stringify(profile.completedIds));
+  localStorage.setItem(profileKey(COMPLETED_REMOVED_KEY), JSON.stringify(profile.completedRemovedAt));
+  localStorage.setItem(profileKey(HIDDEN_KEY), JSON.stringify(profile.hiddenIds));
+  localStorage.setItem(profileKey(HIDDEN_REMOVED_KEY), JSON.stringify(profile.hiddenRemovedAt));
+  saveHistory(profile.history);
+  localStorage.setItem(profileKey(STREAK_KEY), profile.streak.toString());
+  if (profile.lastWin) localStorage.setItem(profileKey(LAST_WIN_KEY), profile.lastWin);
+  else localStorage.removeItem(profileKey(LAST_WIN_KEY));
+  localStorage.setItem(profileKey(PROFILE_UPDATED_KEY), profile.updatedAt.toString());
+};
+
+// Sends the local profile and keeps the merged one the server returns. Offline, or when the
+// server can't be reached, the local profile is returned unchanged.
+export const syncProfile = async (): Promise<ProfileData> => {
+  const local = loadLocalProfile();
+  const active = getActiveProfile();
+  const { id, name, avatar } = active;
+  try {
+    const response = await fetch(`/api/profiles/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(active) },
+      // Name and avatar go along so a restore on another device gets them back
+      body: JSON.stringify({ ...local, name, avatar })
+    });
+    if (!response.ok) return local;
+    const { profile: merged, token }: { profile: ProfileData; token?: string } = await response.json();
+    // The first sync of a profile hands this device its token
+    if (token) updateProfile(id, { token });
+    // Something changed locally while the request was out; the next sync sends that too
+    if (loadLocalProfile().updatedAt !== local.updatedAt) return loadLocalProfile();
+    saveLocalProfile(merged);
+    return merged;
+  } catch (e) {
+    console.warn("Profile sync unavailable, using local data", e);
+    return local;
+  }
+};
+
+// PINs guard restoring a profile on another device; changing one takes the current PIN.
+// Returns an error message, or null on success.
+export const setProfilePin = async (pin: string, currentPin?: string): Promise<string | null> => {
+  try {
+    // The server needs the profile, and this device its token, before it can hold a PIN
+    await syncProfile();
+    const active = getActiveProfile();
+    const response = await fetch(`/api/profiles/${encodeURIComponent(active.id)}/pin`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(active) },
+      body: JSON.stringify({ pin, currentPin })
+    });
+    // Either way there's a PIN now; a conflict means one was set before this device knew
+    if (response.ok || response.status === 409) updateProfile(active.id, { hasPin: true });
+    if (response.ok) return null;
+    const data = await response.json().catch(() => ({}));
+    return data.error ?? "Couldn't save the PIN";
+  } catch (e) {
+    console.error("Failed to set PIN", e);
+    return "You're offline";
+  }
+};
+
+// Fetches a profile from the server by restore code and PIN, adds it to this device and makes
+// it the active one. Returns an error message, or null on success.
+export const restoreProfile = async (code: string, pin: string): Promise<string | null> => {
+  try {
+    const response = await fetch('/api/profiles/restore', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: code.trim(), pin })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) return data.error ?? "Couldn't restore the profile";
+
+    const profile: LocalProfile = { id: data.id, name: data.name, avatar: data.avatar, token: data.token, hasPin: true };
+    addProfile(profile);
+    switchProfile(profile.id);
+    saveLocalProfile(data.profile);
+    return null;
+  } catch (e) {
+    console.error("Failed to restore profile", e);
+    return "You're offline";
+  }
+};
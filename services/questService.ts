@@ -1,6 +1,7 @@
-import { UserStats, QuestProgress, Difficulty, PuzzleConfig } from '../types';
+import { UserStats, QuestProgress, QuestDefinition, CompletionHistoryEntry } from '../types';
 import { QUESTS, CHALLENGES } from '../constants';
 import { loadUserStats, saveUserStats } from './statsService';
+import { advanceQuest, QuestEvent } from '../utils/questRules';
 
 const CATEGORIES = ['Classic Cars', 'Animals', 'Cats', 'Disney Characters', 'Historical Buildings', 'People', 'Abstract', 'Nature', 'Urban', 'Spring', 'Summer', 'Autumn', 'Winter', 'Indoor', 'Fine Art & Masterpieces', 'Icons & Logos', 'Movies & TV Shows', 'Album Covers', 'Abstract & Colour Gradients'];
 
@@ -67,76 +68,47 @@ export const initializeQuests = (stats: UserStats): UserStats => {
   return stats;
 };
 
-export const updateQuestProgress = (
-  puzzle: PuzzleConfig,
-  difficulty: Difficulty,
-  timeSeconds: number,
-  scoreEarned: number
-) => {
-  const stats = loadUserStats();
-  initializeQuests(stats);
+// Moves every open quest and challenge along by one event and pays out the ones it completes.
+// Returns the reward points paid.
+const applyQuestEvent = (stats: UserStats, event: QuestEvent): number => {
+  let rewardPoints = 0;
 
-  let updated = false;
-  let totalRewardPoints = 0;
-
-  const processList = (definitions: typeof QUESTS, progressMap: Record<string, QuestProgress>, pointsToProcess: number, isMainPass: boolean) => {
+  const processList = (definitions: QuestDefinition[], progressMap: Record<string, QuestProgress> | undefined, featuredCategory?: string) => {
     definitions.forEach(def => {
-      const progress = progressMap[def.id];
-      if (progress.isCompleted) return;
-
-      let newValue = progress.currentValue;
-
-      if (isMainPass) {
-        switch (def.type) {
-          case 'COMPLETE_COUNT':
-            if (!def.targetDifficulty || def.targetDifficulty === difficulty) {
-              newValue += 1;
-            }
-            break;
-          case 'COMPLETE_CATEGORY':
-            const targetCat = def.id === 'q2' ? stats.weeklyCategory : (def.id === 'c3' ? stats.dailyCategory : def.targetCategory);
-            if (targetCat === puzzle.category) {
-              newValue += 1;
-            }
-            break;
-          case 'SPEED_RUN':
-            if (def.targetDifficulty === difficulty && timeSeconds <= def.targetValue) {
-              newValue = def.targetValue; // Mark as done
-            }
-            break;
-        }
-      }
-
-      if (def.type === 'EARN_POINTS' && pointsToProcess > 0) {
-        newValue += pointsToProcess;
-      }
-
-      if (newValue !== progress.currentValue) {
-        progress.currentValue = newValue;
-        if (progress.currentValue >= def.targetValue) {
-          progress.isCompleted = true;
-          // Auto-collect points
-          progress.isClaimed = true;
-          stats.totalPoints += def.rewardPoints;
-          totalRewardPoints += def.rewardPoints;
-        }
-        updated = true;
+      const progress = progressMap?.[def.id];
+      if (!progress || progress.isCompleted) return;
+
+      const newValue = advanceQuest(def.rule, progress.currentValue, event, featuredCategory);
+      if (newValue === progress.currentValue) return;
+
+      progress.currentValue = newValue;
+      progress.updatedAt = Date.now();
+      if (progress.currentValue >= def.targetValue) {
+        progress.isCompleted = true;
+        // Auto-collect points
+        progress.isClaimed = true;
+        stats.totalPoints += def.rewardPoints;
+        rewardPoints += def.rewardPoints;
       }
     });
   };
 
-  processList(QUESTS, stats.questProgress!, scoreEarned, true);
-  processList(CHALLENGES, stats.challengeProgress!, scoreEarned, true);
+  processList(QUESTS, stats.questProgress, stats.weeklyCategory);
+  processList(CHALLENGES, stats.challengeProgress, stats.dailyCategory);
+  return rewardPoints;
+};
 
-  // If any quests were completed and gave reward points, those points also count towards EARN_POINTS
-  if (totalRewardPoints > 0) {
-      processList(QUESTS, stats.questProgress!, totalRewardPoints, false);
-      processList(CHALLENGES, stats.challengeProgress!, totalRewardPoints, false);
-  }
+export const updateQuestProgress = (game: CompletionHistoryEntry) => {
+  const stats = loadUserStats();
+  initializeQuests(stats);
 
-  if (updated) {
-    saveUserStats(stats);
+  let rewardPoints = applyQuestEvent(stats, { game, points: game.score });
+  // Rewards paid out count towards point quests too, which may pay out in turn
+  while (rewardPoints > 0) {
+    rewardPoints = applyQuestEvent(stats, { points: rewardPoints });
   }
+
+  saveUserStats(stats);
   return stats;
 };
 
@@ -156,22 +128,11 @@ export const claimReward = (questId: string, isChallenge: boolean = false): User
     progress.isClaimed = true;
     stats.totalPoints += def.rewardPoints;
     
-    // Check EARN_POINTS quests since totalPoints increased
-    const checkEarnPoints = (defs: typeof QUESTS, pMap: Record<string, QuestProgress>) => {
-        defs.forEach(d => {
-            if (d.type === 'EARN_POINTS' && pMap[d.id] && !pMap[d.id].isCompleted) {
-                pMap[d.id].currentValue += def.rewardPoints;
-                if (pMap[d.id].currentValue >= d.targetValue) {
-                    pMap[d.id].isCompleted = true;
-                    pMap[d.id].isClaimed = true;
-                    stats.totalPoints += d.rewardPoints;
-                }
-            }
-        });
-    };
-    
-    if (stats.questProgress) checkEarnPoints(QUESTS, stats.questProgress);
-    if (stats.challengeProgress) checkEarnPoints(CHALLENGES, stats.challengeProgress);
+    // Point quests count the reward too
+    let rewardPoints = def.rewardPoints;
+    while (rewardPoints > 0) {
+      rewardPoints = applyQuestEvent(stats, { points: rewardPoints });
+    }
 
     saveUserStats(stats);
   }
@@ -0,0 +1,35 @@
+import { Difficulty, GameReplay } from '../types';
+import { profileKey } from './accountService';
+
+// The best solve of each puzzle is kept per difficulty (and player) so it can be watched again later
+const replayKey = (puzzleId: string, difficulty: Difficulty) => profileKey(`replay_${puzzleId}_${difficulty}`);
+
+export const loadBestReplay = (puzzleId: string, difficulty: Difficulty): GameReplay | null => {
+  try {
+    const stored = localStorage.getItem(replayKey(puzzleId, difficulty));
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed.events)) return parsed;
+    }
+  } catch (e) {
+    console.error("Failed to load replay", e);
+  }
+  return null;
+};
+
+// Faster wins; on a tie the higher score does. Returns true when the replay was stored.
+export const saveReplayIfBest = (replay: GameReplay): boolean => {
+  const best = loadBestReplay(replay.puzzleId, replay.difficulty);
+  const isBest = !best
+    || replay.duration < best.duration
+    || (replay.duration === best.duration && replay.score > best.score);
+  if (!isBest) return false;
+
+  try {
+    localStorage.setItem(replayKey(replay.puzzleId, replay.difficulty), JSON.stringify(replay));
+    return true;
+  } catch (e) {
+    console.error("Failed to save replay", e);
+    return false;
+  }
+};
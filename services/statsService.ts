@@ -1,6 +1,12 @@
-import { Difficulty, UserStats } from '../types';
+import { Difficulty, UserStats, ScoreBreakdown, HintType, CompletionHistoryEntry } from '../types';
+import { CHAOS_SETTINGS, getHintCost, getSizeScale, getNominalPieceCount } from '../constants';
+import { markProfileChanged } from './profileService';
+import { profileKey, getDeviceId } from './accountService';
+import { loadHistory } from './historyService';
+import { getDevicePoints, sumPoints, SHARED_DEVICE } from '../utils/profileSync';
 
-const STATS_KEY = 'mosaic_user_stats';
+// Stored per player profile
+const STATS_KEY = 'user_stats';
 
 const DEFAULT_STATS: UserStats = {
   totalPoints: 0,
@@ -9,24 +15,36 @@ const DEFAULT_STATS: UserStats = {
     normal: null,
     hard: null,
     expert: null,
+  },
+  chaosBestTimes: {
+    easy: null,
+    normal: null,
+    hard: null,
+    expert: null,
   }
 };
 
 export const loadUserStats = (): UserStats => {
   try {
-    const stored = localStorage.getItem(STATS_KEY);
+    const stored = localStorage.getItem(profileKey(STATS_KEY));
     if (stored) {
       const parsed = JSON.parse(stored);
       // Merge with default to ensure structure integrity
       return { 
           totalPoints: parsed.totalPoints || 0,
           bestTimes: { ...DEFAULT_STATS.bestTimes, ...(parsed.bestTimes || {}) },
+          chaosBestTimes: { ...DEFAULT_STATS.chaosBestTimes, ...(parsed.chaosBestTimes || {}) },
           questProgress: parsed.questProgress,
           challengeProgress: parsed.challengeProgress,
           weeklyResetTime: parsed.weeklyResetTime,
           weeklyCategory: parsed.weeklyCategory,
           dailyResetTime: parsed.dailyResetTime,
-          dailyCategory: parsed.dailyCategory
+          dailyCategory: parsed.dailyCategory,
+          customBestTimes: parsed.customBestTimes,
+          bestTimesResetAt: parsed.bestTimesResetAt,
+          pointsByDevice: parsed.pointsByDevice,
+          solvedByDevice: parsed.solvedByDevice,
+          achievements: parsed.achievements
       };
     }
   } catch (e) {
@@ -35,15 +53,43 @@ export const loadUserStats = (): UserStats => {
   return JSON.parse(JSON.stringify(DEFAULT_STATS));
 };
 
+// Points added since the last save were earned here, so they go to this device's count
+const creditDevicePoints = (stats: UserStats) => {
+  const points = getDevicePoints(stats);
+  const unrecorded = stats.totalPoints - sumPoints(points);
+  if (unrecorded !== 0) {
+    const deviceId = getDeviceId();
+    points[deviceId] = (points[deviceId] ?? 0) + unrecorded;
+  }
+  stats.pointsByDevice = points;
+};
+
 export const saveUserStats = (stats: UserStats) => {
   try {
-    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+    creditDevicePoints(stats);
+    localStorage.setItem(profileKey(STATS_KEY), JSON.stringify(stats));
+    markProfileChanged();
   } catch (e) {
     console.error("Failed to save stats", e);
   }
 };
 
-export const calculateScore = (difficulty: Difficulty, timeSeconds: number): number => {
+// How the player got there: drops/swaps/turns made, hints spent and the size of the puzzle
+export interface GamePerformance {
+  moveCount: number;
+  hintsUsed: HintType[];
+  pieceCount: number;
+  isChaosMode?: boolean;
+}
+
+// Each hint point spent costs a twentieth of the base points
+const HINT_PENALTY_RATIO = 0.05;
+
+export const calculateScore = (difficulty: Difficulty, timeSeconds: number, performance?: GamePerformance): number => {
+  return calculateScoreBreakdown(difficulty, timeSeconds, performance).total;
+};
+
+export const calculateScoreBreakdown = (difficulty: Difficulty, timeSeconds: number, performance?: GamePerformance): ScoreBreakdown => {
   // Base points per difficulty
   const config = {
     easy: { base: 100, targetTime: 60 },
@@ -52,7 +98,10 @@ export const calculateScore = (difficulty: Difficulty, timeSeconds: number): num
     expert: { base: 1200, targetTime: 600 }
   };
 
-  const { base, targetTime } = config[difficulty];
+  // Custom piece counts are worth more or less than the preset and get more or less time for it
+  const scale = performance ? getSizeScale(difficulty, performance.pieceCount) : 1;
+  const base = Math.round(config[difficulty].base * scale);
+  const targetTime = config[difficulty].targetTime * scale;
   
   // Ensure timeSeconds is at least 1 to avoid division by zero
   const safeTime = Math.max(1, timeSeconds);
@@ -66,30 +115,96 @@ export const calculateScore = (difficulty: Difficulty, timeSeconds: number): num
   // Example: 2x faster = 3x base score.
   // Example: 2x slower = 1.5x base score.
   
-  const score = Math.floor(base + (base * timeMultiplier));
+  const timeBonus = Math.floor(base * timeMultiplier);
+
+  // Every piece needs at least one move, so that many moves earns the full efficiency bonus
+  let efficiencyBonus = 0;
+  let hintPenalty = 0;
+  let multiplier = 1;
+  if (performance) {
+    const { moveCount, hintsUsed, pieceCount, isChaosMode } = performance;
+    const efficiency = Math.min(1, pieceCount / Math.max(1, moveCount));
+    efficiencyBonus = Math.floor(base * efficiency);
+    const hintCost = hintsUsed.reduce((sum, type) => sum + getHintCost(type), 0);
+    hintPenalty = Math.floor(base * HINT_PENALTY_RATIO * hintCost);
+    if (isChaosMode) multiplier = CHAOS_SETTINGS.scoreMultiplier;
+  }
+
+  const total = Math.max(0, Math.floor((base + timeBonus + efficiencyBonus - hintPenalty) * multiplier));
   
-  return score;
+  return { base, timeBonus, efficiencyBonus, hintPenalty, multiplier, total };
+};
+
+// Best times for custom piece counts are kept per difficulty and count, e.g. "expert-300" or
+// "easy-48-chaos". Null for a preset-sized game, whose best is in bestTimes.
+const getCustomBestTimeKey = (difficulty: Difficulty, pieceCount: number, isChaosMode?: boolean): string | null => {
+    if (getSizeScale(difficulty, pieceCount) === 1) return null;
+    const count = getNominalPieceCount(difficulty, pieceCount) ?? pieceCount;
+    return `${difficulty}-${count}${isChaosMode ? '-chaos' : ''}`;
 };
 
-export const updateUserStats = (difficulty: Difficulty, timeSeconds: number): { stats: UserStats, score: number, isNewRecord: boolean } => {
+export interface CustomBestTime {
+    pieceCount: number;
+    isChaosMode: boolean;
+    time: number;
+}
+
+// The difficulty's custom piece count bests, smallest count first
+export const getCustomBestTimes = (stats: UserStats, difficulty: Difficulty): CustomBestTime[] =>
+    Object.entries(stats.customBestTimes ?? {})
+        .map(([key, time]) => ({ match: /^(\w+)-(\d+)(-chaos)?$/.exec(key), time }))
+        .filter(({ match }) => match?.[1] === difficulty)
+        .map(({ match, time }) => ({ pieceCount: Number(match![2]), isChaosMode: !!match![3], time }))
+        .sort((a, b) => a.pieceCount - b.pieceCount || Number(a.isChaosMode) - Number(b.isChaosMode));
+
+export const updateUserStats = (
+    difficulty: Difficulty,
+    timeSeconds: number,
+    performance?: GamePerformance
+): { stats: UserStats, score: number, breakdown: ScoreBreakdown, isNewRecord: boolean } => {
     const stats = loadUserStats();
-    const score = calculateScore(difficulty, timeSeconds);
+    const breakdown = calculateScoreBreakdown(difficulty, timeSeconds, performance);
+    const score = breakdown.total;
     
     stats.totalPoints += score;
+
+    // The history is capped, so finished games are counted as well, per device like points.
+    // Profiles from before the count start from the history they have.
+    const solved = stats.solvedByDevice ?? { [SHARED_DEVICE]: loadHistory().length };
+    const deviceId = getDeviceId();
+    solved[deviceId] = (solved[deviceId] ?? 0) + 1;
+    stats.solvedByDevice = solved;
     
+    // Chaos games keep their own best times so they don't compete with calm ones,
+    // and so do custom piece counts
     let isNewRecord = false;
-    const currentBest = stats.bestTimes[difficulty];
-    
-    if (currentBest === null || timeSeconds < currentBest) {
-        stats.bestTimes[difficulty] = timeSeconds;
-        isNewRecord = true;
+    const customKey = performance ? getCustomBestTimeKey(difficulty, performance.pieceCount, performance.isChaosMode) : null;
+    if (customKey) {
+        const customBestTimes = stats.customBestTimes ?? {};
+        const currentBest = customBestTimes[customKey];
+        if (currentBest === undefined || timeSeconds < currentBest) {
+            customBestTimes[customKey] = timeSeconds;
+            isNewRecord = true;
+        }
+        stats.customBestTimes = customBestTimes;
+    } else {
+        const bestTimes = performance?.isChaosMode ? stats.chaosBestTimes : stats.bestTimes;
+        const currentBest = bestTimes[difficulty];
+        if (currentBest === null || timeSeconds < currentBest) {
+            bestTimes[difficulty] = timeSeconds;
+            isNewRecord = true;
+        }
     }
     
     saveUserStats(stats);
     
-    return { stats, score, isNewRecord };
+    return { stats, score, breakdown, isNewRecord };
 };
 
+// Every game the player has finished, however long ago
+export const getSolvedCount = (stats: UserStats, history: CompletionHistoryEntry[]): number =>
+    stats.solvedByDevice ? sumPoints(stats.solvedByDevice) : history.length;
+
 export const resetBestTimes = (): UserStats => {
     const stats = loadUserStats();
     stats.bestTimes = {
@@ -98,6 +213,9 @@ export const resetBestTimes = (): UserStats => {
         hard: null,
         expert: null
     };
+    stats.chaosBestTimes = { ...DEFAULT_STATS.chaosBestTimes };
+    stats.customBestTimes = {};
+    stats.bestTimesResetAt = Date.now();
     saveUserStats(stats);
     return stats;
 };
@@ -105,6 +223,11 @@ export const resetBestTimes = (): UserStats => {
 export const resetBestTimeForDifficulty = (difficulty: Difficulty): UserStats => {
     const stats = loadUserStats();
     stats.bestTimes[difficulty] = null;
+    stats.chaosBestTimes[difficulty] = null;
+    Object.keys(stats.customBestTimes ?? {})
+        .filter(key => key.startsWith(`${difficulty}-`))
+        .forEach(key => delete stats.customBestTimes![key]);
+    stats.bestTimesResetAt = Date.now();
     saveUserStats(stats);
     return stats;
 };
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { mergeProfiles } from './utils/profileSync.ts';
+import type { ProfileData, UserStats } from './types.ts';
+
+// Checks that profile merges keep resets and add up points from every device.
+// Run with: npx tsx test-profile-sync.ts
+
+const stats = (changes: Partial<UserStats> = {}): UserStats => ({
+    totalPoints: 0,
+    bestTimes: { easy: null, normal: null, hard: null, expert: null },
+    chaosBestTimes: { easy: null, normal: null, hard: null, expert: null },
+    ...changes
+});
+
+const profile = (changes: Partial<ProfileData> = {}): ProfileData => ({
+    stats: stats(),
+    completedIds: [],
+    completedRemovedAt: {},
+    hiddenIds: [],
+    hiddenRemovedAt: {},
+    history: [],
+    streak: 0,
+    lastWin: null,
+    updatedAt: 0,
+    ...changes
+});
+
+// Both orders must agree, since the server merges whichever copy arrives
+const merge = (a: ProfileData, b: ProfileData): ProfileData => {
+    const merged = mergeProfiles(a, b);
+    assert.deepEqual(mergeProfiles(b, a), merged);
+    return merged;
+};
+
+// A category reset on one device survives syncing with the server's older copy
+const server = profile({ completedIds: ['a', 'b', 'c'], updatedAt: 1000 });
+const reset = profile({ completedIds: ['c'], completedRemovedAt: { a: 2000, b: 2000 }, updatedAt: 2000 });
+const synced = merge(server, reset);
+assert.deepEqual(synced.completedIds, ['c']);
+
+// ...and a second device that hasn't seen the reset yet doesn't undo it
+const stale = profile({ completedIds: ['a', 'b', 'c'], updatedAt: 1500 });
+assert.deepEqual(merge(synced, stale).completedIds, ['c']);
+
+// Solving a puzzle again after the reset brings it back, and the removal goes
+const replayed = merge(synced, profile({ completedIds: ['a'], updatedAt: 3000 }));
+assert.deepEqual(replayed.completedIds, ['a', 'c']);
+assert.deepEqual(replayed.completedRemovedAt, { b: 2000 });
+
+// Unhiding a puzzle sticks
+const unhidden = merge(
+    profile({ hiddenIds: ['x', 'y'], updatedAt: 1000 }),
+    profile({ hiddenIds: ['y'], hiddenRemovedAt: { x: 2000 }, updatedAt: 2000 })
+);
+assert.deepEqual(unhidden.hiddenIds, ['y']);
+
+// Points earned on two devices since their last sync both count
+const before = profile({ stats: stats({ totalPoints: 100 }), updatedAt: 1000 });
+const phone = profile({ stats: stats({ totalPoints: 130, pointsByDevice: { shared: 100, phone: 30 } }), updatedAt: 2000 });
+const laptop = profile({ stats: stats({ totalPoints: 120, pointsByDevice: { shared: 100, laptop: 20 } }), updatedAt: 2500 });
+assert.equal(merge(merge(before, phone), laptop).stats.totalPoints, 150);
+
+// Custom piece count bests keep the faster time per count and stay apart from the presets
+const customBests = merge(
+    profile({ stats: stats({ customBestTimes: { 'expert-300': 900, 'easy-48': 120 } }), updatedAt: 1000 }),
+    profile({ stats: stats({ customBestTimes: { 'expert-300': 800 } }), updatedAt: 2000 })
+);
+assert.deepEqual(customBests.stats.customBestTimes, { 'expert-300': 800, 'easy-48': 120 });
+assert.equal(customBests.stats.bestTimes.expert, null);
+
+console.log("Profile sync checks passed");
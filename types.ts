@@ -1,26 +1,73 @@
 
-export type AppView = 'home' | 'gallery' | 'create' | 'game' | 'quests';
+export type AppView = 'home' | 'gallery' | 'create' | 'game' | 'quests' | 'stats' | 'trophies';
 
 export type Difficulty = 'easy' | 'normal' | 'hard' | 'expert';
 
-export type PuzzleStyle = 'classic' | 'mosaic';
+export type PuzzleStyle = 'classic' | 'mosaic' | 'jigsaw' | 'hexagon' | 'triangle' | 'voronoi';
 
-export type QuestType = 'COMPLETE_COUNT' | 'COMPLETE_CATEGORY' | 'SPEED_RUN' | 'EARN_POINTS';
+// 'grid': every piece sits in a cell and drops swap with the occupant
+// 'free': pieces rest anywhere (including a scatter area around the board) and snap near their spot
+export type PlacementMode = 'grid' | 'free';
+
+// Quests are data (see data/quests.json): a rule says which finished games count and how
+// they add up towards the target.
+
+// Every set field must hold for a game to count
+export interface QuestCondition {
+  difficulty?: Difficulty[];
+  style?: PuzzleStyle[];
+  category?: string;     // 'featured' stands for the category drawn for the quest's period
+  maxTime?: number;      // Seconds, inclusive
+  maxHints?: number;
+  maxMoves?: number;
+  hours?: [number, number]; // Local hour the game ends in, from (inclusive) to (exclusive); may wrap past midnight
+  chaos?: boolean;
+  daily?: boolean;       // Only the daily challenge puzzle
+}
+
+// 'count' adds one per matching game, 'sum' adds a field of it, and 'streak' counts matching
+// games in a row, starting over at any game that doesn't match
+export type QuestAggregation = 'count' | 'sum' | 'streak';
+
+// 'points' also includes the reward points of quests completed along the way
+export type QuestSumField = 'points' | 'duration' | 'moveCount';
+
+export interface QuestRule {
+  when?: QuestCondition;
+  aggregate: QuestAggregation;
+  field?: QuestSumField; // For 'sum'
+}
 
 export interface QuestDefinition {
   id: string;
   title: string;
-  description: string;
+  description: string; // '{category}' is replaced with the featured category
   rewardPoints: number;
-  type: QuestType;
   targetValue: number;
-  targetCategory?: string;
+  rule: QuestRule;
+}
+
+// Achievements are permanent: once unlocked they stay, unlike quests which reset
+export type AchievementType = 'COMPLETE_COUNT' | 'COMPLETE_ALL_IN_CATEGORY' | 'NO_HINTS' | 'DAILY_STREAK' | 'SPEED_RUN';
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  badge: string; // Emoji drawn on the medal
+  tier: AchievementTier;
+  type: AchievementType;
+  targetValue: number; // A count, days of streak or seconds, depending on the type
   targetDifficulty?: Difficulty;
+  targetStyle?: PuzzleStyle;
 }
 
 export interface QuestProgress {
   questId: string;
   currentValue: number;
+  updatedAt?: number; // When currentValue last changed
   isCompleted: boolean;
   isClaimed: boolean;
 }
@@ -34,6 +81,7 @@ export interface PuzzleConfig {
   category?: string;
   isUserUpload?: boolean;
   isAi?: boolean;
+  seed?: number; // Fixed layout seed (daily puzzle, shared challenges)
 }
 
 export interface GeneratedImage {
@@ -50,6 +98,8 @@ export interface Piece {
   correctY: number; // Percentage 0-100
   currentX: number; // Percentage 0-100
   currentY: number; // Percentage 0-100
+  homeX: number;    // Percentage 0-100 (Anchor of the piece's home cell, used as its slot)
+  homeY: number;    // Percentage 0-100
   width: number;    // Percentage
   height: number;   // Percentage
   isLocked: boolean;
@@ -59,20 +109,142 @@ export interface Piece {
   
   // Grouping
   groupId: string;
+  neighbors: number[]; // Ids of the pieces sharing an edge with this one in the solved image
   
-  // New properties for Mosaic style
+  // New properties for shaped styles (Mosaic, Jigsaw and tessellations)
   shape: PuzzleStyle;
   pathData?: string; // SVG Path string (in 0-100 coordinate space)
   viewBox?: string;  // SVG ViewBox string "minX minY w h"
 }
 
+export interface GridSize {
+  rows: number;
+  cols: number;
+}
+
+export interface PuzzleOptions {
+  seed?: number;
+  grid?: GridSize; // Defaults to the difficulty's preset grid
+  placementMode?: PlacementMode;
+  rotate?: boolean; // Overrides the difficulty's rotate setting
+}
+
+// The parts of a piece a move can change
+export type PieceSnapshot = Pick<Piece, 'id' | 'currentX' | 'currentY' | 'rotation' | 'isLocked' | 'groupId'>;
+
+export interface MoveRecord {
+  before: PieceSnapshot[];
+  after: PieceSnapshot[];
+}
+
+export interface MoveHistory {
+  past: MoveRecord[];
+  future: MoveRecord[];
+}
+
+// 'locate': where the last touched piece goes, 'findPiece': which piece fills a chosen empty cell,
+// 'autoPlace': puts one piece in place, 'edges': highlights every loose border piece
+export type HintType = 'locate' | 'findPiece' | 'autoPlace' | 'edges';
+
+export type ReplayEventType = 'pickup' | 'drop' | 'swap' | 'rotate' | 'hint' | 'lock' | 'undo' | 'redo' | 'chaos';
+
+export interface ReplayEvent {
+  t: number; // ms since the game started
+  type: ReplayEventType;
+  pieceId?: number;
+  x?: number; // Drop position (board percent)
+  y?: number;
+  direction?: 1 | -1;
+  held?: boolean; // Rotated while being dragged
+  tick?: number; // Chaos tick number, which seeds that tick's randomness
+  hint?: HintType; // Older replays only had the single 'locate'-style hint
+}
+
+export interface GameReplay {
+  puzzleId: string;
+  difficulty: Difficulty;
+  style: PuzzleStyle;
+  placementMode: PlacementMode;
+  rotationMode: boolean;
+  isChaosMode?: boolean;
+  grid?: GridSize;
+  seed: number;
+  duration: number; // Seconds, as shown on the timer
+  score: number;
+  moveCount: number;
+  completedAt: number;
+  events: ReplayEvent[];
+}
+
+// A finished game as sent to the server, which replays it before accepting the score
+export interface CompletionClaim {
+  puzzleId: string;
+  difficulty: Difficulty;
+  style: PuzzleStyle;
+  placementMode: PlacementMode;
+  rotationMode: boolean;
+  isChaosMode?: boolean;
+  grid?: GridSize;
+  seed: number;
+  duration: number; // Seconds, as shown on the timer
+  events: ReplayEvent[];
+  startToken: string; // Issued by the server when the game started; dates the start on its clock
+}
+
+export type LeaderboardMetric = 'time' | 'score';
+export type LeaderboardPeriod = 'all' | 'week';
+
+// Only games of the same difficulty, size and chaos setting are ranked against each other, so those
+// are always given. The rest narrow the board to a puzzle (daily challenges included), a style or the current week.
+export interface LeaderboardQuery {
+  metric: LeaderboardMetric;
+  difficulty: Difficulty;
+  pieceCount: number; // The preset or custom piece count, as getNominalPieceCount gives it
+  isChaosMode: boolean;
+  period?: LeaderboardPeriod;
+  puzzleId?: string;
+  style?: PuzzleStyle;
+  limit?: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;   // Public handle; profile ids are never shown to other players
+  isPlayer: boolean;  // The player asking, known from their profile token
+  name: string;
+  avatar: string;
+  puzzleId: string;
+  difficulty: Difficulty;
+  style: PuzzleStyle;
+  duration: number;
+  score: number;
+  moveCount: number;
+  timestamp: number;
+}
+
+export interface Leaderboard {
+  entries: LeaderboardEntry[];
+  player: LeaderboardEntry | null;
+}
+
 export interface SavedGameState {
   puzzleId: string;
   pieces: Piece[];
   difficulty: Difficulty;
   style: PuzzleStyle;
+  seed?: number;
+  placementMode?: PlacementMode;
+  rotationMode?: boolean;
+  history?: MoveHistory;
+  moveCount?: number;
+  replayEvents?: ReplayEvent[];
+  startToken?: string; // Issued by the server when the game started
+  chaosTick?: number;
+  grid?: GridSize;
+  pieceCount?: number | null; // Custom piece count; null follows the difficulty
   elapsedTime: number;
-  hintsRemaining: number;
+  hintsRemaining: number; // Hint points left to spend
+  hintsUsed?: HintType[];
   isChaosMode: boolean;
   lastPlayed: number;
 }
@@ -85,12 +257,86 @@ export interface UserStats {
     hard: number | null;
     expert: number | null;
   };
+  chaosBestTimes: {
+    easy: number | null;
+    normal: number | null;
+    hard: number | null;
+    expert: number | null;
+  };
   questProgress?: Record<string, QuestProgress>;
   challengeProgress?: Record<string, QuestProgress>;
   weeklyResetTime?: number;
   dailyResetTime?: number;
   weeklyCategory?: string;
   dailyCategory?: string;
+  customBestTimes?: Record<string, number>; // Custom piece count bests, keyed like "expert-300" or "easy-48-chaos"
+  bestTimesResetAt?: number; // When best times were last cleared, so a sync doesn't bring old ones back
+  pointsByDevice?: Record<string, number>; // Device id -> points earned there; totalPoints is their sum
+  solvedByDevice?: Record<string, number>; // Device id -> games finished there, counted past the history's cap
+  achievements?: Record<string, number>; // Achievement id -> when it was unlocked
+}
+
+// A player on this device; each has their own stats, quests, saves and streak
+export interface LocalProfile {
+  id: string;     // Also the profile's id on the server
+  name: string;
+  avatar: string; // One of PROFILE_AVATARS
+  token?: string; // From the server once the profile is stored there; lets this device change it
+  hasPin?: boolean; // Changing a PIN that's set takes the current one
+}
+
+// One finished game, kept in the player's history
+export interface CompletionHistoryEntry {
+  puzzleId: string;
+  puzzleTitle?: string;
+  category?: string;
+  completedAt: number;
+  difficulty: Difficulty;
+  style: PuzzleStyle;
+  isChaosMode?: boolean;
+  duration: number; // Seconds
+  moveCount: number;
+  hintsUsed: number;
+  score: number;
+}
+
+// A puzzle's personal bests, worked out from the history
+export interface PuzzleBests {
+  bestTime: number;
+  bestScore: number;
+  lastPlayed: number;
+  timesCompleted: number;
+}
+
+// Everything about a player that follows them between devices
+export interface ProfileData {
+  stats: UserStats;
+  completedIds: string[];
+  completedRemovedAt: Record<string, number>; // Id -> when it was taken off the list, so a sync doesn't bring it back
+  hiddenIds: string[];
+  hiddenRemovedAt: Record<string, number>;
+  history: CompletionHistoryEntry[];
+  streak: number;
+  lastWin: string | null; // Date.toDateString() of the last daily win
+  updatedAt: number;      // Last change on the device that sent it (ms)
+}
+
+// Display aids, chosen once for every puzzle
+export interface AssistSettings {
+  highContrast: boolean;      // Strong two-tone outlines on loose pieces
+  showNumbers: boolean;       // Each piece's correct index
+  showCoordinates: boolean;   // Row and column labels around the board
+  colorBlindPalette: boolean; // Hint, highlight and lock colours that stay apart for colour-blind players
+  largePieces: boolean;       // The board takes as much of the screen as it can
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  timeBonus: number;
+  efficiencyBonus: number; // Up to the base again for finishing in as few moves as there are pieces
+  hintPenalty: number;
+  multiplier: number; // Chaos mode scores more
+  total: number;
 }
 
 export interface GameState {
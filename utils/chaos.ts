@@ -0,0 +1,72 @@
+import { Piece, PlacementMode } from "../types";
+import { CHAOS_SETTINGS } from "../constants";
+import { createRng, hashString, randomRange, getSlots, getOccupiedSlot, positionForSlot, isUpright, Rng } from "./puzzleUtils";
+import { getGroupMembers, clampGroupDelta, shiftGroup } from "./placement";
+
+// Chaos mode unsettles the loose pieces. Every tick gets its own generator derived from the puzzle
+// seed and the tick number, so a replay reproduces exactly the same disorder.
+
+// Free-form: each loose group slides a little in a random direction, staying inside the play area
+const driftPieces = (pieces: Piece[], rng: Rng): Piece[] => {
+  const moved = new Map<number, Piece>();
+  const seen = new Set<string>();
+
+  pieces.forEach(piece => {
+    if (piece.isLocked || seen.has(piece.groupId)) return;
+    seen.add(piece.groupId);
+
+    const angle = rng() * Math.PI * 2;
+    const distance = randomRange(rng, 0.5, 1) * CHAOS_SETTINGS.driftDistance;
+    const group = getGroupMembers(pieces, piece);
+    const delta = clampGroupDelta(group, Math.cos(angle) * distance, Math.sin(angle) * distance);
+    shiftGroup(group, delta.dx, delta.dy).forEach(p => moved.set(p.id, p));
+  });
+
+  return pieces.map(p => moved.get(p.id) ?? p);
+};
+
+// Grid: two loose pieces trade slots. A piece that lands upright in its own slot locks as usual.
+const swapRandomPair = (pieces: Piece[], rng: Rng): Piece[] => {
+  const loose = pieces.filter(p => !p.isLocked);
+  if (loose.length < 2) return pieces;
+
+  const first = loose[Math.floor(rng() * loose.length)];
+  const others = loose.filter(p => p.id !== first.id);
+  const second = others[Math.floor(rng() * others.length)];
+
+  const slots = getSlots(pieces);
+  const firstSlot = getOccupiedSlot(first, slots);
+  const secondSlot = getOccupiedSlot(second, slots);
+  if (!firstSlot || !secondSlot) return pieces;
+
+  const moveTo = (p: Piece, slot: typeof firstSlot): Piece => {
+    const pos = positionForSlot(p, slot);
+    return { ...p, currentX: pos.x, currentY: pos.y, isLocked: slot.id === p.id && isUpright(p.rotation) };
+  };
+
+  return pieces.map(p => {
+    if (p.id === first.id) return moveTo(p, secondSlot);
+    if (p.id === second.id) return moveTo(p, firstSlot);
+    return p;
+  });
+};
+
+export const applyChaos = (pieces: Piece[], seed: number, tick: number, mode: PlacementMode, canRotate: boolean): Piece[] => {
+  const rng = createRng(hashString(`${seed}-chaos-${tick}`));
+  let next = mode === 'free' ? driftPieces(pieces, rng) : swapRandomPair(pieces, rng);
+
+  // Only pieces on their own can be turned back by the player, so groups are left alone
+  if (canRotate && rng() < CHAOS_SETTINGS.rotateChance) {
+    const candidates = next.filter(p => !p.isLocked && getGroupMembers(next, p).length === 1);
+    if (candidates.length > 0) {
+      const target = candidates[Math.floor(rng() * candidates.length)];
+      const direction = rng() < 0.5 ? 1 : -1;
+      const rotation = target.rotation + 90 * direction;
+      // In grid mode a piece sitting in its own slot locks once chaos happens to turn it upright
+      const isLocked = mode === 'grid' && getOccupiedSlot(target, getSlots(next))?.id === target.id && isUpright(rotation);
+      next = next.map(p => (p.id === target.id ? { ...p, rotation, isLocked } : p));
+    }
+  }
+
+  return next;
+};
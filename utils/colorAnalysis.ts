@@ -0,0 +1,149 @@
+import { Piece } from "../types";
+
+// Dominant colour of each piece, sampled from the part of the source image the piece shows.
+// The image is drawn once into a small canvas; every piece then reads a grid of samples
+// from its region, keeping only those inside its outline for shaped styles.
+
+export type ColorFamily = 'red' | 'orange' | 'yellow' | 'green' | 'cyan' | 'blue' | 'purple' | 'pink' | 'white' | 'gray' | 'black';
+
+export interface PieceColor {
+  family: ColorFamily;
+  hue: number;       // Degrees 0-360, averaged over the samples in the dominant family
+  lightness: number; // 0-1
+}
+
+// Display order, with a representative colour for filter chips
+export const COLOR_FAMILIES: { id: ColorFamily; swatch: string }[] = [
+  { id: 'red', swatch: '#ef4444' },
+  { id: 'orange', swatch: '#f97316' },
+  { id: 'yellow', swatch: '#facc15' },
+  { id: 'green', swatch: '#22c55e' },
+  { id: 'cyan', swatch: '#06b6d4' },
+  { id: 'blue', swatch: '#3b82f6' },
+  { id: 'purple', swatch: '#a855f7' },
+  { id: 'pink', swatch: '#ec4899' },
+  { id: 'white', swatch: '#f8fafc' },
+  { id: 'gray', swatch: '#94a3b8' },
+  { id: 'black', swatch: '#1e293b' }
+];
+
+// Longest side of the analysis canvas; a piece never needs more than a few dozen pixels
+const ANALYSIS_SIZE = 256;
+const SAMPLES_PER_SIDE = 8;
+
+const toHsl = (r: number, g: number, b: number): { h: number, s: number, l: number } => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === rn) h = ((gn - bn) / d) % 6;
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+  return { h: (h * 60 + 360) % 360, s, l };
+};
+
+const classify = (h: number, s: number, l: number): ColorFamily => {
+  if (l < 0.18) return 'black';
+  if (l > 0.85 && s < 0.4) return 'white';
+  if (s < 0.18) return 'gray';
+  if (h < 15 || h >= 345) return 'red';
+  if (h < 40) return 'orange';
+  if (h < 70) return 'yellow';
+  if (h < 160) return 'green';
+  if (h < 200) return 'cyan';
+  if (h < 255) return 'blue';
+  if (h < 290) return 'purple';
+  return 'pink';
+};
+
+// The image region a piece shows (board percent). Classic pieces are positioned through
+// bgX / bgY, shaped pieces through their viewBox.
+const getSourceRegion = (piece: Piece): { x: number, y: number, w: number, h: number } => {
+  if (piece.shape === 'classic' || !piece.viewBox) {
+    return {
+      x: (piece.bgX * (100 - piece.width)) / 100,
+      y: (piece.bgY * (100 - piece.height)) / 100,
+      w: piece.width,
+      h: piece.height
+    };
+  }
+  const [x, y, w, h] = piece.viewBox.split(' ').map(Number);
+  return { x, y, w, h };
+};
+
+export const analyzePieceColors = (img: HTMLImageElement, pieces: Piece[]): Record<number, PieceColor> | null => {
+  const scale = ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight);
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, width, height);
+
+  let data: Uint8ClampedArray;
+  try {
+    data = ctx.getImageData(0, 0, width, height).data;
+  } catch (e) {
+    // Cross-origin image without CORS headers: the canvas is tainted and can't be read
+    console.warn("Piece colours unavailable for this image", e);
+    return null;
+  }
+
+  const colors: Record<number, PieceColor> = {};
+  pieces.forEach(piece => {
+    const region = getSourceRegion(piece);
+    const path = piece.pathData ? new Path2D(piece.pathData) : null;
+    const samples: { family: ColorFamily, h: number, l: number }[] = [];
+
+    for (let i = 0; i < SAMPLES_PER_SIDE; i++) {
+      for (let j = 0; j < SAMPLES_PER_SIDE; j++) {
+        // Board percent coordinates, which is also the path's coordinate space
+        const x = region.x + ((i + 0.5) / SAMPLES_PER_SIDE) * region.w;
+        const y = region.y + ((j + 0.5) / SAMPLES_PER_SIDE) * region.h;
+        if (x < 0 || x >= 100 || y < 0 || y >= 100) continue;
+        if (path && !ctx.isPointInPath(path, x, y)) continue;
+
+        const offset = (Math.floor((y / 100) * height) * width + Math.floor((x / 100) * width)) * 4;
+        const { h, s, l } = toHsl(data[offset], data[offset + 1], data[offset + 2]);
+        samples.push({ family: classify(h, s, l), h, l });
+      }
+    }
+    if (samples.length === 0) return;
+
+    const counts = new Map<ColorFamily, number>();
+    samples.forEach(s => counts.set(s.family, (counts.get(s.family) || 0) + 1));
+    const family = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    const dominant = samples.filter(s => s.family === family);
+
+    // Hues wrap around, so average them as angles
+    const sin = dominant.reduce((sum, s) => sum + Math.sin((s.h * Math.PI) / 180), 0);
+    const cos = dominant.reduce((sum, s) => sum + Math.cos((s.h * Math.PI) / 180), 0);
+    colors[piece.id] = {
+      family,
+      hue: ((Math.atan2(sin, cos) * 180) / Math.PI + 360) % 360,
+      lightness: dominant.reduce((sum, s) => sum + s.l, 0) / dominant.length
+    };
+  });
+  return colors;
+};
+
+// Loads an image that canvas code may read back; resolves null when that isn't possible
+export const loadImageForAnalysis = (src: string): Promise<HTMLImageElement | null> => {
+  return new Promise(resolve => {
+    const img = new Image();
+    if (!src.startsWith('data:') && !src.startsWith('blob:')) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+};
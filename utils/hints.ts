@@ -0,0 +1,29 @@
+import { Piece } from "../types";
+import { getEdgeKind } from "./pieceTray";
+
+// Hints aim where they help most: next to what is already in place, so the solved area grows.
+// Before anything is locked the border is the natural place to start, corners first.
+
+const hintScore = (piece: Piece, lockedIds: Set<number>): number => {
+  const lockedNeighbors = piece.neighbors.filter(id => lockedIds.has(id)).length;
+  const kind = getEdgeKind(piece);
+  return lockedNeighbors * 4 + (kind === 'corner' ? 2 : kind === 'edge' ? 1 : 0);
+};
+
+// The best piece to hint, with a random pick among equally good ones
+export const pickHintPiece = (pieces: Piece[], random: () => number = Math.random): Piece | null => {
+  const lockedIds = new Set(pieces.filter(p => p.isLocked).map(p => p.id));
+  const scored = pieces
+    .filter(p => !p.isLocked)
+    .map(piece => ({ piece, score: hintScore(piece, lockedIds) }));
+  if (scored.length === 0) return null;
+
+  const best = Math.max(...scored.map(s => s.score));
+  const top = scored.filter(s => s.score === best);
+  return top[Math.floor(random() * top.length)].piece;
+};
+
+// Loose pieces that belong on the border of the image
+export const getLooseEdgePieces = (pieces: Piece[]): Piece[] => {
+  return pieces.filter(p => !p.isLocked && getEdgeKind(p) !== 'inner');
+};
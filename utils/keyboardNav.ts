@@ -0,0 +1,83 @@
+import { Piece, GridSize, PlacementMode } from "../types";
+import { Slot, getOccupiedSlot, isUpright } from "./puzzleUtils";
+
+// Keyboard play moves a cursor over the slots (piece homes) of the board, and screen readers
+// hear pieces and cells described by row and column.
+
+export type CursorDirection = 'up' | 'down' | 'left' | 'right';
+
+export const ARROW_DIRECTIONS: Record<string, CursorDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right'
+};
+
+// 1-based row and column of a point, counted on the board's rows x cols grid. Tessellations
+// don't line up with the grid exactly, but their cells sit roughly one per grid cell.
+export const getCellPosition = (x: number, y: number, grid: GridSize): { row: number, col: number } => ({
+  row: Math.min(grid.rows - 1, Math.max(0, Math.floor(y / (100 / grid.rows)))) + 1,
+  col: Math.min(grid.cols - 1, Math.max(0, Math.floor(x / (100 / grid.cols)))) + 1
+});
+
+// Top-left slot, where the cursor starts
+export const getFirstSlot = (slots: Slot[]): Slot | null => {
+  let best: Slot | null = null;
+  slots.forEach(slot => {
+    if (!best || slot.x + slot.y < best.x + best.y) best = slot;
+  });
+  return best;
+};
+
+// Nearest slot in the given direction, preferring ones straight ahead over diagonal ones
+export const findSlotInDirection = (slots: Slot[], from: Slot, direction: CursorDirection): Slot | null => {
+  let best: Slot | null = null;
+  let bestScore = Infinity;
+  slots.forEach(slot => {
+    const dx = slot.x - from.x;
+    const dy = slot.y - from.y;
+    const along = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy;
+    const across = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+    if (along <= 0.01) return;
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = slot;
+    }
+  });
+  return best;
+};
+
+// e.g. "Piece 12, row 3 column 4, not placed"
+export const describePiece = (piece: Piece, slots: Slot[], grid: GridSize): string => {
+  const slot = getOccupiedSlot(piece, slots);
+  let where = 'outside the board';
+  if (slot) {
+    const { row, col } = getCellPosition(slot.x, slot.y, grid);
+    where = `row ${row} column ${col}`;
+  }
+  const turned = isUpright(piece.rotation) ? '' : `, turned ${((piece.rotation % 360) + 360) % 360} degrees`;
+  return `Piece ${piece.id + 1}, ${where}${turned}, ${piece.isLocked ? 'placed' : 'not placed'}`;
+};
+
+// The piece the cursor points at: the occupant of the slot in grid mode. Free-form pieces rest
+// anywhere, so there it is the loose piece whose anchor is closest to the slot.
+export const findPieceAtSlot = (pieces: Piece[], slots: Slot[], slot: Slot, mode: PlacementMode): Piece | null => {
+  if (mode === 'grid') {
+    return pieces.find(p => getOccupiedSlot(p, slots)?.id === slot.id) ?? null;
+  }
+  const locked = pieces.find(p => p.isLocked && p.id === slot.id);
+  if (locked) return locked;
+
+  let best: Piece | null = null;
+  let bestDist = Infinity;
+  pieces.forEach(p => {
+    if (p.isLocked) return;
+    const dist = (p.currentX + p.homeX - p.correctX - slot.x) ** 2 + (p.currentY + p.homeY - p.correctY - slot.y) ** 2;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = p;
+    }
+  });
+  return best;
+};
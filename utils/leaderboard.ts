@@ -0,0 +1,86 @@
+import { Difficulty, PuzzleStyle, LeaderboardQuery, LeaderboardEntry, Leaderboard } from "../types";
+import { DIFFICULTY_SETTINGS, PUZZLE_STYLES, getNominalPieceCount } from "../constants";
+
+// Leaderboards are built from verified completions only. Each player appears once per board,
+// with their best game on it; anonymous completions count for nothing here. The database does
+// the ranking, so only the rows on the board come back.
+
+export const DEFAULT_LEADERBOARD_SIZE = 10;
+const MAX_LEADERBOARD_SIZE = 50;
+
+// A player's best completion on a board, with its place there
+export interface RankedCompletion {
+  rank: number;
+  profileId: string;
+  puzzleId: string;
+  difficulty: string;
+  style: string;
+  duration: number;
+  score: number;
+  moveCount: number;
+  timestamp: number;
+}
+
+// How a player appears on the boards
+export type LeaderboardPlayer = Pick<LeaderboardEntry, 'playerId' | 'name' | 'avatar'>;
+
+// Weeks start on Monday at midnight UTC, the same moment for every player
+export const getWeekStart = (now: number = Date.now()): number => {
+  const date = new Date(now);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+};
+
+// Query strings arrive as untrusted text; returns an error message for anything unknown
+export const parseLeaderboardQuery = (input: Record<string, unknown>): LeaderboardQuery | string => {
+  const { metric, period, puzzleId, difficulty, pieces, style, chaos, limit } = input;
+  if (metric !== 'time' && metric !== 'score') return "Unknown metric";
+  if (typeof difficulty !== 'string' || !(difficulty in DIFFICULTY_SETTINGS)) return "Unknown difficulty";
+  const pieceCount = parseInt(String(pieces));
+  if (getNominalPieceCount(difficulty as Difficulty, pieceCount) !== pieceCount) return "Unknown piece count";
+  if (chaos !== 'true' && chaos !== 'false') return "Invalid chaos flag";
+  if (period !== undefined && period !== 'all' && period !== 'week') return "Unknown period";
+  if (puzzleId !== undefined && (typeof puzzleId !== 'string' || puzzleId.length === 0)) return "Invalid puzzle id";
+  if (style !== undefined && !PUZZLE_STYLES.some(s => s.id === style)) return "Unknown style";
+
+  const size = limit === undefined ? DEFAULT_LEADERBOARD_SIZE : parseInt(String(limit));
+  if (!Number.isInteger(size) || size < 1) return "Invalid limit";
+
+  return {
+    metric,
+    difficulty: difficulty as Difficulty,
+    pieceCount,
+    isChaosMode: chaos === 'true',
+    period: period === 'week' ? 'week' : 'all',
+    puzzleId: puzzleId as string | undefined,
+    style: style as PuzzleStyle | undefined,
+    limit: Math.min(size, MAX_LEADERBOARD_SIZE)
+  };
+};
+
+// `completions` are the board's top rows in rank order, plus the asking player's own best if it
+// ranks lower; `players` hold everyone in them
+export const buildLeaderboard = (
+  completions: RankedCompletion[],
+  query: LeaderboardQuery,
+  players: Map<string, LeaderboardPlayer>,
+  playerProfileId: string | null
+): Leaderboard => {
+  const ranked: LeaderboardEntry[] = completions.map(c => ({
+    rank: c.rank,
+    ...players.get(c.profileId)!,
+    isPlayer: c.profileId === playerProfileId,
+    puzzleId: c.puzzleId,
+    difficulty: c.difficulty as Difficulty,
+    style: c.style as PuzzleStyle,
+    duration: c.duration,
+    score: c.score,
+    moveCount: c.moveCount,
+    timestamp: c.timestamp
+  }));
+
+  return {
+    entries: ranked.filter(e => e.rank <= (query.limit ?? DEFAULT_LEADERBOARD_SIZE)),
+    player: ranked.find(e => e.isPlayer) ?? null
+  };
+};
@@ -0,0 +1,70 @@
+import { Piece, PieceSnapshot, MoveRecord, MoveHistory } from "../types";
+
+// Undo/redo for piece moves. Each record only keeps the pieces a move changed,
+// so a long game still fits comfortably in its save.
+
+export const MAX_HISTORY = 100;
+
+export const createHistory = (): MoveHistory => ({ past: [], future: [] });
+
+const snapshot = (p: Piece): PieceSnapshot => ({
+  id: p.id,
+  currentX: p.currentX,
+  currentY: p.currentY,
+  rotation: p.rotation,
+  isLocked: p.isLocked,
+  groupId: p.groupId
+});
+
+const isSameSnapshot = (a: PieceSnapshot, b: PieceSnapshot): boolean => (
+  a.currentX === b.currentX &&
+  a.currentY === b.currentY &&
+  a.rotation === b.rotation &&
+  a.isLocked === b.isLocked &&
+  a.groupId === b.groupId
+);
+
+// Records the difference between two board states. A new move clears the redo stack.
+export const recordMove = (history: MoveHistory, before: Piece[], after: Piece[]): MoveHistory => {
+  const previous = new Map(before.map(p => [p.id, snapshot(p)]));
+  const record: MoveRecord = { before: [], after: [] };
+
+  after.forEach(p => {
+    const old = previous.get(p.id);
+    const next = snapshot(p);
+    if (old && !isSameSnapshot(old, next)) {
+      record.before.push(old);
+      record.after.push(next);
+    }
+  });
+
+  if (record.after.length === 0) return history;
+  return { past: [...history.past, record].slice(-MAX_HISTORY), future: [] };
+};
+
+const applySnapshots = (pieces: Piece[], snapshots: PieceSnapshot[]): Piece[] => {
+  const byId = new Map(snapshots.map(s => [s.id, s]));
+  return pieces.map(p => {
+    const s = byId.get(p.id);
+    return s ? { ...p, ...s } : p;
+  });
+};
+
+// Undoing a move that locked a piece unlocks it again, because the snapshot restores isLocked too
+export const undoMove = (history: MoveHistory, pieces: Piece[]): { history: MoveHistory, pieces: Piece[] } | null => {
+  const record = history.past[history.past.length - 1];
+  if (!record) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [record, ...history.future] },
+    pieces: applySnapshots(pieces, record.before)
+  };
+};
+
+export const redoMove = (history: MoveHistory, pieces: Piece[]): { history: MoveHistory, pieces: Piece[] } | null => {
+  const record = history.future[0];
+  if (!record) return null;
+  return {
+    history: { past: [...history.past, record], future: history.future.slice(1) },
+    pieces: applySnapshots(pieces, record.after)
+  };
+};
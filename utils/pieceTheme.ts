@@ -0,0 +1,52 @@
+import { AssistSettings } from "../types";
+
+// Every colour the piece layers and board overlays draw with, so assist modes can swap them
+export interface PieceTheme {
+  looseBorder: string;         // Outline of loose pieces
+  looseBorderWidth: number;    // CSS pixels
+  looseShadow: string | null;  // Second, outer outline in high contrast mode
+  hint: string;                // Hinted piece and its ghost
+  highlight: string;           // Pieces picked out by a hint, e.g. all edges
+  lock: string;                // Brief flash when a piece locks in
+  cursor: string;              // Keyboard cursor
+  cursorHeld: string;          // Keyboard cursor while carrying a piece
+  numberText: string;
+  numberBackground: string;
+}
+
+export const DEFAULT_PIECE_THEME: PieceTheme = {
+  looseBorder: 'rgba(255,255,255,0.8)',
+  looseBorderWidth: 1,
+  looseShadow: null,
+  hint: '#facc15',
+  highlight: '#f59e0b',
+  lock: '#10b981',
+  cursor: '#6366f1',
+  cursorHeld: '#10b981',
+  numberText: '#ffffff',
+  numberBackground: 'rgba(15,23,42,0.7)'
+};
+
+// Okabe-Ito colours, which stay distinguishable with every common form of colour blindness
+const COLOR_BLIND_COLORS: Partial<PieceTheme> = {
+  hint: '#E69F00',
+  highlight: '#CC79A7',
+  lock: '#56B4E9',
+  cursor: '#0072B2',
+  cursorHeld: '#D55E00'
+};
+
+// White on black reads against both light and dark parts of the image
+const HIGH_CONTRAST: Partial<PieceTheme> = {
+  looseBorder: '#ffffff',
+  looseBorderWidth: 2,
+  looseShadow: '#000000',
+  numberText: '#000000',
+  numberBackground: '#ffffff'
+};
+
+export const getPieceTheme = (assist: AssistSettings): PieceTheme => ({
+  ...DEFAULT_PIECE_THEME,
+  ...(assist.colorBlindPalette ? COLOR_BLIND_COLORS : {}),
+  ...(assist.highContrast ? HIGH_CONTRAST : {})
+});
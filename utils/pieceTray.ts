@@ -0,0 +1,96 @@
+import { Piece, PlacementMode } from "../types";
+import { ColorFamily, PieceColor } from "./colorAnalysis";
+
+// Piece tray: the pieces still waiting to be placed, filtered by border position or colour
+// and optionally sorted by hue.
+
+export type EdgeKind = 'corner' | 'edge' | 'inner';
+
+export type TrayShapeFilter = 'all' | 'edge' | 'corner';
+
+export interface TrayFilter {
+  shape: TrayShapeFilter;
+  color: ColorFamily | null;
+  sortByHue: boolean;
+}
+
+export const DEFAULT_TRAY_FILTER: TrayFilter = { shape: 'all', color: null, sortByHue: false };
+
+const EPS = 0.01;
+
+// Outline vertices (and curve control points) in board percent. Every style writes absolute
+// x / y pairs, and border edges are always straight lines lying exactly on 0 or 100.
+const getOutlinePoints = (piece: Piece): { x: number, y: number }[] => {
+  if (!piece.pathData) {
+    const x1 = piece.correctX + piece.width;
+    const y1 = piece.correctY + piece.height;
+    return [
+      { x: piece.correctX, y: piece.correctY },
+      { x: x1, y: piece.correctY },
+      { x: x1, y: y1 },
+      { x: piece.correctX, y: y1 }
+    ];
+  }
+  const numbers = (piece.pathData.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+  const points: { x: number, y: number }[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) points.push({ x: numbers[i], y: numbers[i + 1] });
+  return points;
+};
+
+// A piece is an edge piece when a whole side of it lies on the board border (two outline
+// points on the same border, so a cell merely touching it at one vertex doesn't count),
+// and a corner piece when it contains a corner of the board.
+export const getEdgeKind = (piece: Piece): EdgeKind => {
+  const points = getOutlinePoints(piece);
+  const on = (v: number, border: number) => Math.abs(v - border) < EPS;
+
+  const isCorner = points.some(p => (on(p.x, 0) || on(p.x, 100)) && (on(p.y, 0) || on(p.y, 100)));
+  if (isCorner) return 'corner';
+
+  const sides = [
+    points.filter(p => on(p.x, 0)).length,
+    points.filter(p => on(p.x, 100)).length,
+    points.filter(p => on(p.y, 0)).length,
+    points.filter(p => on(p.y, 100)).length
+  ];
+  return sides.some(count => count >= 2) ? 'edge' : 'inner';
+};
+
+// Pieces that still need placing: every unlocked piece in grid mode; in free-form mode only
+// single loose pieces, since a group is already being assembled on the board
+export const getTrayPieces = (pieces: Piece[], mode: PlacementMode): Piece[] => {
+  const loose = pieces.filter(p => !p.isLocked);
+  if (mode === 'grid') return loose;
+
+  const groupSizes = new Map<string, number>();
+  loose.forEach(p => groupSizes.set(p.groupId, (groupSizes.get(p.groupId) || 0) + 1));
+  return loose.filter(p => groupSizes.get(p.groupId) === 1);
+};
+
+// Edge pieces include the corners, as on the back of a jigsaw box
+export const filterTrayPieces = (
+  pieces: Piece[],
+  filter: TrayFilter,
+  edgeKinds: Record<number, EdgeKind>,
+  colors: Record<number, PieceColor> | null
+): Piece[] => {
+  const filtered = pieces.filter(p => {
+    const kind = edgeKinds[p.id];
+    if (filter.shape === 'edge' && kind === 'inner') return false;
+    if (filter.shape === 'corner' && kind !== 'corner') return false;
+    // Without colour data (still analysing, or an unreadable image) the colour filter is ignored
+    if (filter.color && colors && colors[p.id]?.family !== filter.color) return false;
+    return true;
+  });
+
+  if (!filter.sortByHue || !colors) return filtered;
+
+  // Colourful pieces around the colour wheel, then neutrals from light to dark
+  const sortKey = (p: Piece): number => {
+    const color = colors[p.id];
+    if (!color) return Infinity;
+    if (color.family === 'white' || color.family === 'gray' || color.family === 'black') return 360 + (1 - color.lightness);
+    return color.hue;
+  };
+  return [...filtered].sort((a, b) => sortKey(a) - sortKey(b));
+};
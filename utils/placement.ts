@@ -0,0 +1,192 @@
+import { Piece, Difficulty, PlacementMode } from "../types";
+import { DIFFICULTY_SETTINGS } from "../constants";
+import {
+  getSlots,
+  getPieceAnchor,
+  findNearestSlot,
+  getOccupiedSlot,
+  positionForSlot,
+  clampToPlayArea,
+  checkSnap,
+  isUpright
+} from "./puzzleUtils";
+
+// Pure drop resolution shared by every placement mode.
+// Callers pass the top-left position the dragged piece was released at (board percent).
+
+export interface DropResult {
+  pieces: Piece[];
+  swappedId: number | null; // Piece displaced by a grid swap
+  lockedIds: number[];      // Pieces that locked into their correct spot on this drop
+}
+
+export const isPuzzleComplete = (pieces: Piece[]): boolean => pieces.every(p => p.isLocked);
+
+// Grid mode: the drop lands in whichever slot is nearest to the piece's anchor and swaps with its occupant.
+// Returns null when the move is rejected (off the board, same slot, or a locked occupant).
+export const resolveGridDrop = (pieces: Piece[], pieceId: number, x: number, y: number): DropResult | null => {
+  const draggedPiece = pieces.find(p => p.id === pieceId);
+  if (!draggedPiece) return null;
+
+  const slots = getSlots(pieces);
+  const dropAnchor = getPieceAnchor(draggedPiece, x, y);
+  const targetSlot = findNearestSlot(slots, dropAnchor.x, dropAnchor.y);
+  const startSlot = getOccupiedSlot(draggedPiece, slots);
+
+  if (!targetSlot || !startSlot || targetSlot.id === startSlot.id) return null;
+
+  const occupant = pieces.find(p => p.id !== draggedPiece.id && getOccupiedSlot(p, slots)?.id === targetSlot.id);
+  if (occupant && occupant.isLocked) return null;
+
+  const lockedIds: number[] = [];
+  const newPieces = pieces.map(p => {
+    if (p.id === draggedPiece.id) {
+      const pos = positionForSlot(p, targetSlot);
+      const isLocked = targetSlot.id === p.id && isUpright(p.rotation);
+      if (isLocked) lockedIds.push(p.id);
+      return { ...p, currentX: pos.x, currentY: pos.y, isLocked };
+    }
+    if (occupant && p.id === occupant.id) {
+      // The displaced piece takes over the slot the dragged piece came from
+      const pos = positionForSlot(p, startSlot);
+      const isLocked = startSlot.id === p.id && isUpright(p.rotation);
+      if (isLocked) lockedIds.push(p.id);
+      return { ...p, currentX: pos.x, currentY: pos.y, isLocked };
+    }
+    return p;
+  });
+
+  return { pieces: newPieces, swappedId: occupant ? occupant.id : null, lockedIds };
+};
+
+// Members of a piece's group, the piece itself included
+export const getGroupMembers = (pieces: Piece[], piece: Piece): Piece[] => {
+  return pieces.filter(p => p.groupId === piece.groupId);
+};
+
+// How far a group may move before any member's bounding box leaves the play area
+export const clampGroupDelta = (group: Piece[], dx: number, dy: number): { dx: number, dy: number } => {
+  let clampedDx = dx;
+  let clampedDy = dy;
+  group.forEach(p => {
+    const pos = clampToPlayArea(p, p.currentX + clampedDx, p.currentY + clampedDy);
+    clampedDx = pos.x - p.currentX;
+    clampedDy = pos.y - p.currentY;
+  });
+  return { dx: clampedDx, dy: clampedDy };
+};
+
+export const shiftGroup = (group: Piece[], dx: number, dy: number): Piece[] => {
+  return group.map(p => ({ ...p, currentX: p.currentX + dx, currentY: p.currentY + dy }));
+};
+
+// Free-form mode: the dragged piece carries its whole group and rests where it was dropped.
+// The group snaps (and locks) when any member is within the difficulty's snapThreshold of its
+// correct spot, otherwise it merges with every loose neighbour that lines up with it. Moved
+// pieces go to the end of the list so they render on top of the pile.
+export const resolveFreeDrop = (pieces: Piece[], pieceId: number, x: number, y: number, difficulty: Difficulty): DropResult | null => {
+  const draggedPiece = pieces.find(p => p.id === pieceId);
+  if (!draggedPiece) return null;
+
+  const threshold = DIFFICULTY_SETTINGS[difficulty].snapThreshold;
+  const delta = clampGroupDelta(getGroupMembers(pieces, draggedPiece), x - draggedPiece.currentX, y - draggedPiece.currentY);
+  let group = shiftGroup(getGroupMembers(pieces, draggedPiece), delta.dx, delta.dy);
+  const groupId = draggedPiece.groupId;
+
+  const lockedIds: number[] = [];
+  const snapping = group.find(p => checkSnap(p, difficulty));
+  if (snapping) {
+    group = shiftGroup(group, snapping.correctX - snapping.currentX, snapping.correctY - snapping.currentY)
+      .map(p => ({ ...p, isLocked: true }));
+    lockedIds.push(...group.map(p => p.id));
+  } else {
+    // A neighbour lines up when both pieces are upright and offset from their correct spots by (almost) the same amount
+    const rest = pieces.filter(p => p.groupId !== groupId);
+    let merged = true;
+    while (merged) {
+      merged = false;
+      for (const member of group) {
+        const target = rest.find(p =>
+          member.neighbors.includes(p.id) &&
+          isUpright(p.rotation) &&
+          isUpright(member.rotation) &&
+          Math.abs((p.currentX - p.correctX) - (member.currentX - member.correctX)) < threshold &&
+          Math.abs((p.currentY - p.correctY) - (member.currentY - member.correctY)) < threshold
+        );
+        if (!target) continue;
+
+        // Align to the neighbour's group and take over its id
+        const dx = (target.currentX - target.correctX) - (member.currentX - member.correctX);
+        const dy = (target.currentY - target.correctY) - (member.currentY - member.correctY);
+        const targetGroup = rest.filter(p => p.groupId === target.groupId);
+        group = [...shiftGroup(group, dx, dy).map(p => ({ ...p, groupId: target.groupId })), ...targetGroup];
+        rest.splice(0, rest.length, ...rest.filter(p => p.groupId !== target.groupId));
+
+        if (target.isLocked) {
+          group = group.map(p => {
+            if (!p.isLocked) lockedIds.push(p.id);
+            return { ...p, currentX: p.correctX, currentY: p.correctY, isLocked: true };
+          });
+        }
+        merged = true;
+        break;
+      }
+    }
+  }
+
+  const movedIds = new Set(group.map(p => p.id));
+  const newPieces = [...pieces.filter(p => !movedIds.has(p.id)), ...group];
+  return { pieces: newPieces, swappedId: null, lockedIds };
+};
+
+// Turns a loose piece a quarter turn (1 = clockwise, -1 = anticlockwise). Pieces only join up
+// while upright, so a group is already the right way round and stays put.
+export const resolveRotation = (pieces: Piece[], pieceId: number, direction: 1 | -1, mode: PlacementMode, difficulty: Difficulty): DropResult | null => {
+  const piece = pieces.find(p => p.id === pieceId);
+  if (!piece || piece.isLocked || getGroupMembers(pieces, piece).length > 1) return null;
+
+  const rotation = piece.rotation + 90 * direction;
+  const rotated = pieces.map(p => (p.id === pieceId ? { ...p, rotation } : p));
+
+  // Free-form: turning a piece upright near its spot snaps it, just like dropping it there.
+  // The stacking order is kept so the piece turns in place instead of jumping to the top.
+  if (mode === 'free') {
+    const result = resolveFreeDrop(rotated, pieceId, piece.currentX, piece.currentY, difficulty);
+    if (!result) return null;
+    const order = new Map(pieces.map((p, i) => [p.id, i]));
+    return { ...result, pieces: [...result.pieces].sort((a, b) => order.get(a.id)! - order.get(b.id)!) };
+  }
+
+  const isLocked = getOccupiedSlot(piece, getSlots(pieces))?.id === pieceId && isUpright(rotation);
+  return {
+    pieces: rotated.map(p => (p.id === pieceId ? { ...p, isLocked } : p)),
+    swappedId: null,
+    lockedIds: isLocked ? [pieceId] : []
+  };
+};
+
+// Hint: puts a piece into its correct spot exactly as a perfect drop would. It is turned upright
+// first; in grid mode it swaps into its own slot, in free-form mode its group comes along.
+export const resolveAutoPlace = (pieces: Piece[], pieceId: number, mode: PlacementMode, difficulty: Difficulty): DropResult | null => {
+  const piece = pieces.find(p => p.id === pieceId);
+  if (!piece || piece.isLocked) return null;
+
+  // Nearest upright turn, so the piece spins the short way round
+  const rotation = Math.round(piece.rotation / 360) * 360;
+  const upright = pieces.map(p => (p.id === pieceId ? { ...p, rotation } : p));
+
+  if (mode === 'free') return resolveFreeDrop(upright, pieceId, piece.correctX, piece.correctY, difficulty);
+
+  const home = getSlots(upright).find(s => s.id === pieceId);
+  if (!home) return null;
+  const pos = positionForSlot(piece, home);
+  const result = resolveGridDrop(upright, pieceId, pos.x, pos.y);
+  if (result) return result;
+
+  // Already in its own slot, just the wrong way round
+  return {
+    pieces: upright.map(p => (p.id === pieceId ? { ...p, isLocked: true } : p)),
+    swappedId: null,
+    lockedIds: [pieceId]
+  };
+};
@@ -0,0 +1,242 @@
+import { ProfileData, UserStats, QuestProgress, Difficulty, CompletionHistoryEntry } from "../types";
+import { COMPLETION_HISTORY_LIMIT, QUESTS, CHALLENGES } from "../constants";
+
+// Merging two copies of a profile: the server's and the one a device syncs, which then gets the
+// merged copy back. Progress only ever moves forward, so most fields keep whichever side got
+// further. Points are counted per device, each count only ever growing, so the counts merge the
+// same way and the total is their sum. The result doesn't depend on the order of the two copies.
+
+type BestTimes = UserStats['bestTimes'];
+type RemovedIds = ProfileData['completedRemovedAt'];
+
+// Where points and solved games from before they were counted per device go; both copies shared
+// them, so they merge as one count
+export const SHARED_DEVICE = 'shared';
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard', 'expert'];
+
+const fasterTimes = (a: BestTimes, b: BestTimes): BestTimes => {
+  const merged = { ...a };
+  DIFFICULTIES.forEach(d => {
+    const times = [a[d], b[d]].filter((t): t is number => t !== null && t !== undefined);
+    merged[d] = times.length > 0 ? Math.min(...times) : null;
+  });
+  return merged;
+};
+
+// Cleared best times stay cleared unless the other side played after the reset
+const mergeBestTimes = (a: ProfileData, b: ProfileData, key: 'bestTimes' | 'chaosBestTimes'): BestTimes => {
+  if ((a.stats.bestTimesResetAt ?? 0) > b.updatedAt) return a.stats[key];
+  if ((b.stats.bestTimesResetAt ?? 0) > a.updatedAt) return b.stats[key];
+  return fasterTimes(a.stats[key], b.stats[key]);
+};
+
+// Custom piece count bests follow the same reset rule, each count keeping its faster time
+const mergeCustomBestTimes = (a: ProfileData, b: ProfileData): Record<string, number> | undefined => {
+  if ((a.stats.bestTimesResetAt ?? 0) > b.updatedAt) return a.stats.customBestTimes;
+  if ((b.stats.bestTimesResetAt ?? 0) > a.updatedAt) return b.stats.customBestTimes;
+  if (!a.stats.customBestTimes || !b.stats.customBestTimes) return a.stats.customBestTimes ?? b.stats.customBestTimes;
+  const merged = { ...a.stats.customBestTimes };
+  Object.entries(b.stats.customBestTimes).forEach(([key, time]) => {
+    merged[key] = key in merged ? Math.min(merged[key], time) : time;
+  });
+  return merged;
+};
+
+// Most progress only grows, so the higher value is the later one. A streak drops back to 0 when
+// it breaks, so there the value changed last wins, or the higher one if that can't be told.
+const mergeQuestProgress = (a: QuestProgress, b: QuestProgress, isStreak: boolean): QuestProgress => {
+  const aUpdated = a.updatedAt ?? 0;
+  const bUpdated = b.updatedAt ?? 0;
+  return {
+    questId: a.questId,
+    currentValue: isStreak && aUpdated !== bUpdated
+      ? (aUpdated > bUpdated ? a : b).currentValue
+      : Math.max(a.currentValue, b.currentValue),
+    updatedAt: Math.max(aUpdated, bUpdated) || undefined,
+    isCompleted: a.isCompleted || b.isCompleted,
+    isClaimed: a.isClaimed || b.isClaimed
+  };
+};
+
+const isStreakQuest = (questId: string): boolean =>
+  [...QUESTS, ...CHALLENGES].some(def => def.id === questId && def.rule.aggregate === 'streak');
+
+interface QuestPeriod {
+  progress?: Record<string, QuestProgress>;
+  resetTime?: number;
+  category?: string;
+}
+
+// Quests belong to a period that ends at its reset time; the later period replaces the earlier one.
+// Devices that started the same period each drew a random category, so the alphabetically first
+// one is kept, which both sides agree on.
+const mergeQuestPeriod = (a: QuestPeriod, b: QuestPeriod): QuestPeriod => {
+  if ((a.resetTime ?? 0) !== (b.resetTime ?? 0)) return (a.resetTime ?? 0) > (b.resetTime ?? 0) ? a : b;
+
+  const categories = [a.category, b.category].filter((c): c is string => !!c).sort();
+  let progress = a.progress ?? b.progress;
+  if (a.progress && b.progress) {
+    progress = { ...b.progress, ...a.progress };
+    Object.keys(a.progress).forEach(id => {
+      if (b.progress![id]) progress![id] = mergeQuestProgress(a.progress![id], b.progress![id], isStreakQuest(id));
+    });
+  }
+  return { progress, resetTime: a.resetTime, category: categories[0] };
+};
+
+// An achievement unlocked on either side stays unlocked, dated by whichever side got it first
+const mergeAchievements = (a?: Record<string, number>, b?: Record<string, number>): Record<string, number> | undefined => {
+  if (!a || !b) return a ?? b;
+  const merged = { ...b, ...a };
+  Object.keys(b).forEach(id => {
+    if (a[id]) merged[id] = Math.min(a[id], b[id]);
+  });
+  return merged;
+};
+
+export const getDevicePoints = (stats: UserStats): Record<string, number> =>
+  stats.pointsByDevice ?? (stats.totalPoints > 0 ? { [SHARED_DEVICE]: stats.totalPoints } : {});
+
+export const sumPoints = (points: Record<string, number>): number =>
+  Object.values(points).reduce((sum, p) => sum + p, 0);
+
+// Each device's count only grows, so the higher one is the later
+const mergeDeviceCounts = (a: Record<string, number>, b: Record<string, number>): Record<string, number> => {
+  const merged = { ...b, ...a };
+  Object.keys(b).forEach(device => {
+    if (a[device] !== undefined) merged[device] = Math.max(a[device], b[device]);
+  });
+  return merged;
+};
+
+const winTime = (lastWin: string | null): number => (lastWin ? new Date(lastWin).getTime() || 0 : 0);
+
+const sortedUnion = (a: string[], b: string[]): string[] => Array.from(new Set([...a, ...b])).sort();
+
+// Ids taken off a list (a category reset, an unhidden puzzle) stay off unless the side that still
+// has them changed after the removal, the same rule cleared best times follow
+const mergeIdList = (a: ProfileData, b: ProfileData, list: 'completedIds' | 'hiddenIds', removals: 'completedRemovedAt' | 'hiddenRemovedAt'): { ids: string[]; removedAt: RemovedIds } => {
+  const removedAt: RemovedIds = { ...b[removals], ...a[removals] };
+  Object.keys(b[removals]).forEach(id => {
+    if (a[removals][id]) removedAt[id] = Math.max(a[removals][id], b[removals][id]);
+  });
+
+  const kept = (side: ProfileData) => side[list].filter(id => !(removedAt[id] > side.updatedAt));
+  const ids = sortedUnion(kept(a), kept(b));
+  // A removal is only needed for as long as the id stays off the list
+  ids.forEach(id => { delete removedAt[id]; });
+  return { ids, removedAt };
+};
+
+// A game is the same game on both sides if it's the same puzzle finished at the same moment
+const historyUnion = (a: CompletionHistoryEntry[], b: CompletionHistoryEntry[]): CompletionHistoryEntry[] => {
+  const games = new Map<string, CompletionHistoryEntry>();
+  [...a, ...b].forEach(e => games.set(`${e.puzzleId}@${e.completedAt}`, e));
+  return Array.from(games.values())
+    .sort((x, y) => y.completedAt - x.completedAt || x.puzzleId.localeCompare(y.puzzleId))
+    .slice(0, COMPLETION_HISTORY_LIMIT);
+};
+
+export const mergeProfiles = (a: ProfileData, b: ProfileData): ProfileData => {
+  const weekly = mergeQuestPeriod(
+    { progress: a.stats.questProgress, resetTime: a.stats.weeklyResetTime, category: a.stats.weeklyCategory },
+    { progress: b.stats.questProgress, resetTime: b.stats.weeklyResetTime, category: b.stats.weeklyCategory }
+  );
+  const daily = mergeQuestPeriod(
+    { progress: a.stats.challengeProgress, resetTime: a.stats.dailyResetTime, category: a.stats.dailyCategory },
+    { progress: b.stats.challengeProgress, resetTime: b.stats.dailyResetTime, category: b.stats.dailyCategory }
+  );
+
+  const pointsByDevice = mergeDeviceCounts(getDevicePoints(a.stats), getDevicePoints(b.stats));
+  const solvedByDevice = a.stats.solvedByDevice && b.stats.solvedByDevice
+    ? mergeDeviceCounts(a.stats.solvedByDevice, b.stats.solvedByDevice)
+    : a.stats.solvedByDevice ?? b.stats.solvedByDevice;
+  const stats: UserStats = {
+    totalPoints: sumPoints(pointsByDevice),
+    pointsByDevice,
+    solvedByDevice,
+    bestTimes: mergeBestTimes(a, b, 'bestTimes'),
+    chaosBestTimes: mergeBestTimes(a, b, 'chaosBestTimes'),
+    customBestTimes: mergeCustomBestTimes(a, b),
+    questProgress: weekly.progress,
+    weeklyResetTime: weekly.resetTime,
+    weeklyCategory: weekly.category,
+    challengeProgress: daily.progress,
+    dailyResetTime: daily.resetTime,
+    dailyCategory: daily.category,
+    bestTimesResetAt: Math.max(a.stats.bestTimesResetAt ?? 0, b.stats.bestTimesResetAt ?? 0) || undefined,
+    achievements: mergeAchievements(a.stats.achievements, b.stats.achievements)
+  };
+
+  // The streak belongs to the most recent daily win
+  const aWin = winTime(a.lastWin);
+  const bWin = winTime(b.lastWin);
+  const streakFrom = aWin > bWin || (aWin === bWin && a.streak >= b.streak) ? a : b;
+
+  const completed = mergeIdList(a, b, 'completedIds', 'completedRemovedAt');
+  const hidden = mergeIdList(a, b, 'hiddenIds', 'hiddenRemovedAt');
+
+  return {
+    stats,
+    completedIds: completed.ids,
+    completedRemovedAt: completed.removedAt,
+    hiddenIds: hidden.ids,
+    hiddenRemovedAt: hidden.removedAt,
+    history: historyUnion(a.history, b.history),
+    streak: streakFrom.streak,
+    lastWin: streakFrom.lastWin,
+    updatedAt: Math.max(a.updatedAt, b.updatedAt)
+  };
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'number');
+
+const isHistoryEntry = (value: unknown): value is CompletionHistoryEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const e = value as Record<string, unknown>;
+  return typeof e.puzzleId === 'string'
+    && typeof e.completedAt === 'number'
+    && typeof e.difficulty === 'string'
+    && typeof e.style === 'string'
+    && typeof e.duration === 'number'
+    && typeof e.moveCount === 'number'
+    && typeof e.hintsUsed === 'number'
+    && typeof e.score === 'number';
+};
+
+// Profiles arrive as untrusted JSON; returns null unless the shape is right
+export const parseProfileData = (input: unknown): ProfileData | null => {
+  if (typeof input !== 'object' || input === null) return null;
+  const p = input as Record<string, unknown>;
+  const stats = p.stats as UserStats | undefined;
+  if (typeof stats !== 'object' || stats === null || typeof stats.totalPoints !== 'number') return null;
+  if (typeof stats.bestTimes !== 'object' || stats.bestTimes === null) return null;
+  if (typeof stats.chaosBestTimes !== 'object' || stats.chaosBestTimes === null) return null;
+  if (stats.pointsByDevice !== undefined && !isNumberRecord(stats.pointsByDevice)) return null;
+  if (stats.customBestTimes !== undefined && !isNumberRecord(stats.customBestTimes)) return null;
+  if (stats.solvedByDevice !== undefined && !isNumberRecord(stats.solvedByDevice)) return null;
+  if (!isStringList(p.completedIds) || !isStringList(p.hiddenIds)) return null;
+  if (typeof p.streak !== 'number' || typeof p.updatedAt !== 'number') return null;
+  if (p.lastWin !== null && typeof p.lastWin !== 'string') return null;
+  // Profiles from before the history existed don't have one
+  if (p.history !== undefined && (!Array.isArray(p.history) || !p.history.every(isHistoryEntry))) return null;
+  // Nor removals, from before they were kept
+  if (p.completedRemovedAt !== undefined && !isNumberRecord(p.completedRemovedAt)) return null;
+  if (p.hiddenRemovedAt !== undefined && !isNumberRecord(p.hiddenRemovedAt)) return null;
+
+  return {
+    stats,
+    completedIds: p.completedIds,
+    completedRemovedAt: (p.completedRemovedAt as RemovedIds | undefined) ?? {},
+    hiddenIds: p.hiddenIds,
+    hiddenRemovedAt: (p.hiddenRemovedAt as RemovedIds | undefined) ?? {},
+    history: (p.history as CompletionHistoryEntry[] | undefined) ?? [],
+    streak: p.streak,
+    lastWin: p.lastWin as string | null,
+    updatedAt: p.updatedAt
+  };
+};
@@ -1,21 +1,58 @@
-import { Piece, Difficulty, PuzzleStyle } from "../types";
+import { Piece, Difficulty, PuzzleStyle, PuzzleOptions, GridSize } from "../types";
 import { DIFFICULTY_SETTINGS } from "../constants";
+import { Polygon, hexagonCells, triangleCells, voronoiCells, polygonCentroid, findPolygonNeighbors } from "./tessellation";
 
-// Helper to generate a random number between min and max
-const randomRange = (min: number, max: number): number => {
-  return Math.random() * (max - min) + min;
-};
+// Random source used by the generator. Always returns a float in [0, 1)
+export type Rng = () => number;
 
-// Internal helper for Mosaic edge generation
-const getMosaicEdgePath = (p1: {x:number, y:number}, p2: {x:number, y:number}, edgeId: string, reverse: boolean): string => {
-    // Seeded random simulation
-    const str = edgeId;
+// FNV-1a hash, used to turn strings (edge ids, dates, share codes) into 32-bit seeds
+export const hashString = (str: string): number => {
     let h = 0x811c9dc5;
     for (let i = 0; i < str.length; i++) {
         h ^= str.charCodeAt(i);
         h = Math.imul(h, 0x01000193);
     }
-    const floatVal = ((h >>> 0) / 4294967296);
+    return h >>> 0;
+};
+
+// Mulberry32 PRNG: a given seed always produces the same sequence
+export const createRng = (seed: number): Rng => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Fresh random seed for games that don't need a fixed layout
+export const generateSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Daily puzzles are named after their date ("daily-Mon-Oct-19-2026"), which also fixes their layout
+export const getDailySeed = (puzzleId: string): number | null =>
+    puzzleId.startsWith('daily-') ? hashString(puzzleId.slice('daily-'.length)) : null;
+
+// Helper to generate a random number between min and max
+export const randomRange = (rng: Rng, min: number, max: number): number => {
+  return rng() * (max - min) + min;
+};
+
+// Fisher-Yates shuffle (in place)
+const shuffleInPlace = <T>(items: T[], rng: Rng): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// Internal helper for Mosaic edge generation
+const getMosaicEdgePath = (p1: {x:number, y:number}, p2: {x:number, y:number}, edgeId: string, reverse: boolean): string => {
+    // Seeded random simulation
+    const h = hashString(edgeId);
+    const floatVal = (h / 4294967296);
     const floatVal2 = (((h ^ 12345) >>> 0) / 4294967296);
 
     const dx = p2.x - p1.x;
@@ -44,7 +81,7 @@ const getMosaicEdgePath = (p1: {x:number, y:number}, p2: {x:number, y:number}, e
 };
 
 // Internal helper to generate Mosaic pieces specifically
-const generateMosaicPieces = (rows: number, cols: number, pieceWidth: number, pieceHeight: number, rotate: boolean, positions: {x: number, y: number}[]): Piece[] => {
+const generateMosaicPieces = (rows: number, cols: number, pieceWidth: number, pieceHeight: number, rng: Rng, seed: number): Piece[] => {
     // 1. Generate Vertices
     const verts: {x: number, y: number}[][] = [];
     for (let r = 0; r <= rows; r++) {
@@ -57,8 +94,8 @@ const generateMosaicPieces = (rows: number, cols: number, pieceWidth: number, pi
         if (r > 0 && r < rows && c > 0 && c < cols) {
           const maxJitterX = pieceWidth * 0.25;
           const maxJitterY = pieceHeight * 0.25;
-          x += randomRange(-maxJitterX, maxJitterX);
-          y += randomRange(-maxJitterY, maxJitterY);
+          x += randomRange(rng, -maxJitterX, maxJitterX);
+          y += randomRange(rng, -maxJitterY, maxJitterY);
         }
         verts[r][c] = { x, y };
       }
@@ -77,19 +114,19 @@ const generateMosaicPieces = (rows: number, cols: number, pieceWidth: number, pi
         
         // Top
         if (r === 0) d += `L ${pTR.x.toFixed(2)} ${pTR.y.toFixed(2)} `;
-        else d += getMosaicEdgePath(pTL, pTR, `h-${r}-${c}`, false) + " ";
+        else d += getMosaicEdgePath(pTL, pTR, `${seed}-h-${r}-${c}`, false) + " ";
         
         // Right
         if (c === cols - 1) d += `L ${pBR.x.toFixed(2)} ${pBR.y.toFixed(2)} `;
-        else d += getMosaicEdgePath(pTR, pBR, `v-${r}-${c+1}`, false) + " ";
+        else d += getMosaicEdgePath(pTR, pBR, `${seed}-v-${r}-${c+1}`, false) + " ";
         
         // Bottom
         if (r === rows - 1) d += `L ${pBL.x.toFixed(2)} ${pBL.y.toFixed(2)} `;
-        else d += getMosaicEdgePath(pBR, pBL, `h-${r+1}-${c}`, true) + " ";
+        else d += getMosaicEdgePath(pBR, pBL, `${seed}-h-${r+1}-${c}`, true) + " ";
         
         // Left
         if (c === 0) d += `L ${pTL.x.toFixed(2)} ${pTL.y.toFixed(2)} `;
-        else d += getMosaicEdgePath(pBL, pTL, `v-${r}-${c}`, true) + " ";
+        else d += getMosaicEdgePath(pBL, pTL, `${seed}-v-${r}-${c}`, true) + " ";
         
         d += "Z";
         
@@ -109,37 +146,23 @@ const generateMosaicPieces = (rows: number, cols: number, pieceWidth: number, pi
         const w = maxX - minX;
         const h = maxY - minY;
         
-        // Use shuffled grid positions
-        const index = r * cols + c;
-        
-        // Correct offset calculation:
-        // We calculate where the Top-Left of the visual box should be relative to the logical grid cell
-        const originalGridX = c * pieceWidth;
-        const originalGridY = r * pieceHeight;
-        
-        // The offset represents how much "larger" and "shifted" the bounding box is compared to the simple grid cell
-        const offsetX = minX - originalGridX;
-        const offsetY = minY - originalGridY;
-        
-        // We apply this offset to the randomized position so the piece sits visually centered in its slot
-        const currentX = positions[index].x + offsetX;
-        const currentY = positions[index].y + offsetY;
-  
-        const rotation = rotate ? Math.floor(Math.random() * 4) * 90 : 0;
-        
+        // The home slot stays the logical grid cell, even though the jittered outline is not centred in it
         finalPieces.push({
             id: r * cols + c,
             correctX: minX,
             correctY: minY,
             width: w,
             height: h,
-            currentX,
-            currentY,
+            currentX: minX,
+            currentY: minY,
+            homeX: (c + 0.5) * pieceWidth,
+            homeY: (r + 0.5) * pieceHeight,
             isLocked: false,
             bgX: 0, 
             bgY: 0, 
-            rotation,
+            rotation: 0,
             groupId: `group-${r * cols + c}`,
+            neighbors: [],
             shape: 'mosaic',
             pathData: d,
             viewBox: `${minX} ${minY} ${w} ${h}`
@@ -150,72 +173,377 @@ const generateMosaicPieces = (rows: number, cols: number, pieceWidth: number, pi
     return finalPieces;
 };
 
-export const createPuzzlePieces = (difficulty: Difficulty, style: PuzzleStyle = 'classic'): Piece[] => {
+// How far a jigsaw knob can reach past its edge, as a fraction of the edge length
+const JIGSAW_TAB_EXTENT = 0.36;
+
+// Internal helper for Jigsaw edge generation.
+// The knob is always computed in the canonical direction of the shared edge (keyed by edgeId),
+// so both neighbours trace exactly the same curve; the second one simply walks it backwards.
+const getJigsawEdgePath = (p1: {x:number, y:number}, p2: {x:number, y:number}, edgeId: string, reverse: boolean): string => {
+    const h = hashString(edgeId);
+    const edgeRng = createRng(h);
+
+    // Tab direction and shape are decided once per shared edge
+    const flip = (h & 1) ? 1 : -1;
+    const tab = randomRange(edgeRng, 0.08, 0.11);
+    const a = randomRange(edgeRng, -0.03, 0.03);
+    const b = randomRange(edgeRng, -0.06, 0.06);
+    const c = randomRange(edgeRng, -0.03, 0.03);
+    const d = randomRange(edgeRng, -0.03, 0.03);
+    const e = randomRange(edgeRng, -0.03, 0.03);
+
+    // Knob template in edge-local coordinates (u along the edge, v along the normal)
+    const local: [number, number][] = [
+        [0, 0],
+        [0.2, a],
+        [0.5 + b + d, -tab + c],
+        [0.5 - tab + b, tab + c],
+        [0.5 - 2 * tab + b - d, 3 * tab + c],
+        [0.5 + 2 * tab + b - d, 3 * tab + c],
+        [0.5 + tab + b, tab + c],
+        [0.5 + b + d, -tab + c],
+        [0.8, e],
+        [1, 0]
+    ];
+
+    // p1 -> p2 is always the canonical direction; reverse walks the same points backwards
+    const dx = p2.x - p1.x;
+    const dy = p2.y - p1.y;
+    const len = Math.sqrt(dx * dx + dy * dy);
+    const nx = -dy / len;
+    const ny = dx / len;
+
+    const points = local.map(([u, v]) => ({
+        x: p1.x + dx * u + nx * v * len * flip,
+        y: p1.y + dy * u + ny * v * len * flip
+    }));
+    if (reverse) points.reverse();
+
+    const fmt = (pt: {x: number, y: number}) => `${pt.x.toFixed(2)} ${pt.y.toFixed(2)}`;
+    return [1, 4, 7]
+        .map(i => `C ${fmt(points[i])}, ${fmt(points[i + 1])}, ${fmt(points[i + 2])}`)
+        .join(" ");
+};
+
+// Internal helper to generate Jigsaw (knob and socket) pieces
+const generateJigsawPieces = (rows: number, cols: number, pieceWidth: number, pieceHeight: number, seed: number): Piece[] => {
+    const finalPieces: Piece[] = [];
+
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const x0 = c * pieceWidth;
+        const y0 = r * pieceHeight;
+        const x1 = x0 + pieceWidth;
+        const y1 = y0 + pieceHeight;
+        const pTL = { x: x0, y: y0 };
+        const pTR = { x: x1, y: y0 };
+        const pBR = { x: x1, y: y1 };
+        const pBL = { x: x0, y: y1 };
+
+        let d = `M ${pTL.x.toFixed(2)} ${pTL.y.toFixed(2)} `;
+
+        // Border edges stay flat. Horizontal edges are canonical left-to-right, vertical ones top-to-bottom.
+        // Top
+        if (r === 0) d += `L ${pTR.x.toFixed(2)} ${pTR.y.toFixed(2)} `;
+        else d += getJigsawEdgePath(pTL, pTR, `${seed}-jh-${r}-${c}`, false) + " ";
+
+        // Right
+        if (c === cols - 1) d += `L ${pBR.x.toFixed(2)} ${pBR.y.toFixed(2)} `;
+        else d += getJigsawEdgePath(pTR, pBR, `${seed}-jv-${r}-${c+1}`, false) + " ";
+
+        // Bottom
+        if (r === rows - 1) d += `L ${pBL.x.toFixed(2)} ${pBL.y.toFixed(2)} `;
+        else d += getJigsawEdgePath(pBL, pBR, `${seed}-jh-${r+1}-${c}`, true) + " ";
+
+        // Left
+        if (c === 0) d += `L ${pTL.x.toFixed(2)} ${pTL.y.toFixed(2)} `;
+        else d += getJigsawEdgePath(pTL, pBL, `${seed}-jv-${r}-${c}`, true) + " ";
+
+        d += "Z";
+
+        // Knobs on vertical edges reach sideways by a fraction of the edge height and vice versa,
+        // so the padded viewBox always contains every tab (and its bezier control points)
+        const paddingX = pieceHeight * JIGSAW_TAB_EXTENT;
+        const paddingY = pieceWidth * JIGSAW_TAB_EXTENT;
+
+        const minX = x0 - paddingX;
+        const minY = y0 - paddingY;
+        const w = pieceWidth + paddingX * 2;
+        const h = pieceHeight + paddingY * 2;
+
+        const index = r * cols + c;
+
+        finalPieces.push({
+            id: index,
+            correctX: minX,
+            correctY: minY,
+            width: w,
+            height: h,
+            currentX: minX,
+            currentY: minY,
+            homeX: x0 + pieceWidth / 2,
+            homeY: y0 + pieceHeight / 2,
+            isLocked: false,
+            bgX: 0,
+            bgY: 0,
+            rotation: 0,
+            groupId: `group-${index}`,
+            neighbors: [],
+            shape: 'jigsaw',
+            pathData: d,
+            viewBox: `${minX} ${minY} ${w} ${h}`
+        });
+      }
+    }
+
+    return finalPieces;
+};
+
+// Internal helper to turn tessellation cells (Hexagon, Triangle, Voronoi) into pieces
+const generatePolygonPieces = (cells: Polygon[], style: PuzzleStyle): Piece[] => {
+    return cells.map((cell, index) => {
+        let d = `M ${cell[0].x.toFixed(2)} ${cell[0].y.toFixed(2)} `;
+        for (let i = 1; i < cell.length; i++) {
+            d += `L ${cell[i].x.toFixed(2)} ${cell[i].y.toFixed(2)} `;
+        }
+        d += "Z";
+
+        const xs = cell.map(p => p.x);
+        const ys = cell.map(p => p.y);
+
+        // Straight edges never leave the cell, a hair of padding keeps the outline stroke visible
+        const padding = 0.5;
+        const minX = Math.min(...xs) - padding;
+        const minY = Math.min(...ys) - padding;
+        const w = Math.max(...xs) + padding - minX;
+        const h = Math.max(...ys) + padding - minY;
+
+        const home = polygonCentroid(cell);
+
+        return {
+            id: index,
+            correctX: minX,
+            correctY: minY,
+            width: w,
+            height: h,
+            currentX: minX,
+            currentY: minY,
+            homeX: home.x,
+            homeY: home.y,
+            isLocked: false,
+            bgX: 0,
+            bgY: 0,
+            rotation: 0,
+            groupId: `group-${index}`,
+            neighbors: [],
+            shape: style,
+            pathData: d,
+            viewBox: `${minX} ${minY} ${w} ${h}`
+        };
+    });
+};
+
+const gridNeighbors = (id: number, rows: number, cols: number): number[] => {
+  const r = Math.floor(id / cols);
+  const c = id % cols;
+  const result: number[] = [];
+  if (r > 0) result.push(id - cols);
+  if (c < cols - 1) result.push(id + 1);
+  if (r < rows - 1) result.push(id + cols);
+  if (c > 0) result.push(id - 1);
+  return result;
+};
+
+// Moves every piece into a random home slot. A piece sits in a slot when its own home anchor
+// lines up with that slot, which works for any cell shape, not only rows x cols grids.
+const scatterIntoSlots = (pieces: Piece[], rotate: boolean, rng: Rng): Piece[] => {
+  const slots = shuffleInPlace(pieces.map(p => ({ x: p.homeX, y: p.homeY })), rng);
+
+  pieces.forEach((piece, i) => {
+    const pos = positionForSlot(piece, slots[i]);
+    piece.currentX = pos.x;
+    piece.currentY = pos.y;
+    piece.rotation = rotate ? Math.floor(rng() * 4) * 90 : 0;
+  });
+  return pieces;
+};
+
+// Free-form mode: how far (in board percent) the scatter area reaches beyond each side of the board
+export const SCATTER_MARGIN = 30;
+
+// Keeps a loose piece's bounding box inside the board plus its scatter area
+export const clampToPlayArea = (piece: Piece, x: number, y: number): { x: number, y: number } => {
+  const clamp = (v: number, size: number) => {
+    const min = -SCATTER_MARGIN;
+    const max = 100 + SCATTER_MARGIN - size;
+    return max < min ? (min + max) / 2 : Math.min(max, Math.max(min, v));
+  };
+  return { x: clamp(x, piece.width), y: clamp(y, piece.height) };
+};
+
+// Free-form mode: spreads the pieces over the scatter area, keeping their centres off the board
+// where the piece size allows it
+const scatterAroundBoard = (pieces: Piece[], rotate: boolean, rng: Rng): Piece[] => {
+  pieces.forEach(piece => {
+    let pos = { x: 0, y: 0 };
+    for (let attempt = 0; attempt < 20; attempt++) {
+      pos = clampToPlayArea(
+        piece,
+        randomRange(rng, -SCATTER_MARGIN, 100 + SCATTER_MARGIN) - piece.width / 2,
+        randomRange(rng, -SCATTER_MARGIN, 100 + SCATTER_MARGIN) - piece.height / 2
+      );
+      const cx = pos.x + piece.width / 2;
+      const cy = pos.y + piece.height / 2;
+      if (cx < 0 || cx > 100 || cy < 0 || cy > 100) break;
+    }
+    piece.currentX = pos.x;
+    piece.currentY = pos.y;
+    piece.rotation = rotate ? Math.floor(rng() * 4) * 90 : 0;
+  });
+  return pieces;
+};
+
+// Rows and columns for about `pieceCount` pieces that come out roughly square on a board
+// of the given aspect ratio (width / height)
+export const getGridSize = (pieceCount: number, aspect: number = 1): GridSize => {
+  const cols = Math.max(2, Math.round(Math.sqrt(pieceCount * aspect)));
+  const rows = Math.max(2, Math.round(pieceCount / cols));
+  return { rows, cols };
+};
+
+// The same seed, difficulty, style and options always produce identical pieces and positions
+export const createPuzzlePieces = (difficulty: Difficulty, style: PuzzleStyle = 'classic', options: PuzzleOptions = {}): Piece[] => {
+  const { seed = generateSeed(), placementMode = 'grid' } = options;
+  const rng = createRng(seed);
   const settings = DIFFICULTY_SETTINGS[difficulty];
-  const { rows, cols, rotate } = settings;
+  const { rows, cols } = options.grid ?? settings;
+  const rotate = options.rotate ?? settings.rotate;
   const count = rows * cols;
   
   // Grid Dimensions (0-100 coordinate space)
   const pieceWidth = 100 / cols;
   const pieceHeight = 100 / rows;
 
-  // Generate shuffled grid positions
-  const positions: {x: number, y: number}[] = [];
-  for(let r=0; r<rows; r++) {
-      for(let c=0; c<cols; c++) {
-          // STRICT GRID ALIGNMENT: No scatter/jitter
-          positions.push({
-              x: c * pieceWidth,
-              y: r * pieceHeight
-          });
+  let pieces: Piece[];
+
+  switch (style) {
+    case 'classic':
+      pieces = [];
+      for (let i = 0; i < count; i++) {
+        const row = Math.floor(i / cols);
+        const col = i % cols;
+
+        const correctX = col * pieceWidth;
+        const correctY = row * pieceHeight;
+
+        pieces.push({
+          id: i,
+          correctX,
+          correctY,
+          currentX: correctX,
+          currentY: correctY,
+          homeX: correctX + pieceWidth / 2,
+          homeY: correctY + pieceHeight / 2,
+          width: pieceWidth,
+          height: pieceHeight,
+          isLocked: false,
+          bgX: col * 100 / (cols - 1),
+          bgY: row * 100 / (rows - 1),
+          rotation: 0,
+          groupId: `group-${i}`,
+          neighbors: [],
+          shape: 'classic'
+        });
       }
+      break;
+    case 'jigsaw':
+      pieces = generateJigsawPieces(rows, cols, pieceWidth, pieceHeight, seed);
+      break;
+    case 'hexagon':
+    case 'triangle':
+    case 'voronoi': {
+      const cells = style === 'hexagon'
+        ? hexagonCells(rows, cols)
+        : (style === 'triangle' ? triangleCells(rows, cols) : voronoiCells(rows, cols, rng));
+      pieces = generatePolygonPieces(cells, style);
+      const neighbors = findPolygonNeighbors(cells);
+      pieces.forEach(p => { p.neighbors = neighbors[p.id]; });
+      break;
+    }
+    default:
+      pieces = generateMosaicPieces(rows, cols, pieceWidth, pieceHeight, rng, seed);
   }
-  
-  // Fisher-Yates shuffle
-  for (let i = positions.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [positions[i], positions[j]] = [positions[j], positions[i]];
+
+  // Grid-based styles: ids are row-major, so neighbours are the 4 adjacent cells
+  if (style === 'classic' || style === 'mosaic' || style === 'jigsaw') {
+    pieces.forEach(p => { p.neighbors = gridNeighbors(p.id, rows, cols); });
+  }
+
+  if (placementMode === 'free') {
+    scatterAroundBoard(pieces, rotate, rng);
+  } else {
+    scatterIntoSlots(pieces, rotate, rng);
   }
+  return shuffleInPlace(pieces, rng);
+};
+
+// --- Slot Placement ---
+// Slots are the home anchors of all pieces (a grid cell centre, or a tessellation cell centroid).
+
+export interface Slot {
+  id: number; // Id of the piece whose home this slot is
+  x: number;
+  y: number;
+}
+
+export const getSlots = (pieces: Piece[]): Slot[] => {
+  return pieces.map(p => ({ id: p.id, x: p.homeX, y: p.homeY }));
+};
 
-  // --- Classic Style ---
-  if (style === 'classic') {
-    const pieces: Piece[] = [];
-    for (let i = 0; i < count; i++) {
-      const row = Math.floor(i / cols);
-      const col = i % cols;
-
-      const correctX = col * pieceWidth;
-      const correctY = row * pieceHeight;
-      
-      const currentX = positions[i].x;
-      const currentY = positions[i].y;
-
-      const rotation = rotate ? Math.floor(Math.random() * 4) * 90 : 0;
-
-      pieces.push({
-        id: i,
-        correctX,
-        correctY,
-        currentX,
-        currentY,
-        width: pieceWidth,
-        height: pieceHeight,
-        isLocked: false,
-        bgX: col * 100 / (cols - 1),
-        bgY: row * 100 / (rows - 1),
-        rotation,
-        groupId: `group-${i}`,
-        shape: 'classic'
-      });
+// Where the piece's home anchor currently is, for a given top-left position
+export const getPieceAnchor = (piece: Piece, x: number = piece.currentX, y: number = piece.currentY): { x: number, y: number } => {
+  return { x: x + piece.homeX - piece.correctX, y: y + piece.homeY - piece.correctY };
+};
+
+// Top-left position that puts the piece's home anchor onto the given slot
+export const positionForSlot = (piece: Piece, slot: { x: number, y: number }): { x: number, y: number } => {
+  return { x: slot.x - (piece.homeX - piece.correctX), y: slot.y - (piece.homeY - piece.correctY) };
+};
+
+// Nearest slot to a point, or null when the point is off the board
+export const findNearestSlot = (slots: Slot[], x: number, y: number): Slot | null => {
+  if (x < 0 || x > 100 || y < 0 || y > 100) return null;
+  let best: Slot | null = null;
+  let bestDist = Infinity;
+  for (const slot of slots) {
+    const dist = (slot.x - x) ** 2 + (slot.y - y) ** 2;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = slot;
     }
-    return pieces.sort(() => Math.random() - 0.5);
   }
+  return best;
+};
+
+export const getOccupiedSlot = (piece: Piece, slots: Slot[]): Slot | null => {
+  const anchor = getPieceAnchor(piece);
+  return findNearestSlot(slots, anchor.x, anchor.y);
+};
 
-  // --- Mosaic Style ---
-  const mosaicPieces = generateMosaicPieces(rows, cols, pieceWidth, pieceHeight, rotate, positions);
-  return mosaicPieces.sort(() => Math.random() - 0.5);
+// Fills in fields that older saves don't have. Without a home anchor the bounding box centre is
+// the closest match; without neighbour data the pieces simply never merge into groups.
+export const migrateSavedPieces = (pieces: Piece[]): Piece[] => {
+  return pieces.map(p => ({
+    ...p,
+    homeX: typeof p.homeX === 'number' ? p.homeX : p.correctX + p.width / 2,
+    homeY: typeof p.homeY === 'number' ? p.homeY : p.correctY + p.height / 2,
+    neighbors: Array.isArray(p.neighbors) ? p.neighbors : []
+  }));
 };
 
+// Rotation is stored cumulatively (e.g. 270 -> 360) so turns always animate the short way round
+export const isUpright = (rotation: number): boolean => rotation % 360 === 0;
+
 export const checkSnap = (piece: Piece, difficulty: Difficulty): boolean => {
   const settings = DIFFICULTY_SETTINGS[difficulty];
   const baseThreshold = settings.snapThreshold; 
@@ -223,7 +551,8 @@ export const checkSnap = (piece: Piece, difficulty: Difficulty): boolean => {
   const dx = Math.abs(piece.currentX - piece.correctX);
   const dy = Math.abs(piece.currentY - piece.correctY);
 
-  const isRotationCorrect = !settings.rotate || (piece.rotation % 360 === 0);
+  // Rotation mode can be switched on for any difficulty, so a turned piece never snaps
+  const isRotationCorrect = isUpright(piece.rotation);
 
   return dx < baseThreshold && dy < baseThreshold && isRotationCorrect;
 };
\ No newline at end of file
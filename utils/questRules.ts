@@ -0,0 +1,98 @@
+import { CompletionHistoryEntry, QuestCondition, QuestDefinition, QuestRule, Difficulty, PuzzleStyle } from "../types";
+
+// The rule engine behind quests and challenges. A quest's progress is a single number that
+// each finished game moves according to the quest's rule (see QuestRule in types.ts).
+
+// What moves quest progress: a finished game, or just points (quest rewards paid out on the way)
+export interface QuestEvent {
+  game?: CompletionHistoryEntry;
+  points: number;
+}
+
+const isLocalHourIn = (time: number, [from, to]: [number, number]): boolean => {
+  const hour = new Date(time).getHours();
+  return from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+};
+
+export const matchesCondition = (when: QuestCondition | undefined, game: CompletionHistoryEntry, featuredCategory?: string): boolean => {
+  if (!when) return true;
+  const category = when.category === 'featured' ? featuredCategory : when.category;
+  return (!when.difficulty || when.difficulty.includes(game.difficulty))
+    && (!when.style || when.style.includes(game.style))
+    && (!when.category || (!!category && game.category === category))
+    && (when.maxTime === undefined || game.duration <= when.maxTime)
+    && (when.maxHints === undefined || game.hintsUsed <= when.maxHints)
+    && (when.maxMoves === undefined || game.moveCount <= when.maxMoves)
+    && (!when.hours || isLocalHourIn(game.completedAt, when.hours))
+    && (when.chaos === undefined || !!game.isChaosMode === when.chaos)
+    && (when.daily === undefined || game.puzzleId.startsWith('daily-') === when.daily);
+};
+
+// Reward points have no game to match against, so only unconditional point sums take them
+export const advanceQuest = (rule: QuestRule, value: number, event: QuestEvent, featuredCategory?: string): number => {
+  if (!event.game) {
+    return rule.aggregate === 'sum' && rule.field === 'points' && !rule.when ? value + event.points : value;
+  }
+
+  const matches = matchesCondition(rule.when, event.game, featuredCategory);
+  switch (rule.aggregate) {
+    case 'count':
+      return matches ? value + 1 : value;
+    case 'sum':
+      if (!matches) return value;
+      return value + (rule.field === 'duration' ? event.game.duration : rule.field === 'moveCount' ? event.game.moveCount : event.points);
+    case 'streak':
+      return matches ? value + 1 : 0;
+  }
+};
+
+export const describeQuest = (def: QuestDefinition, featuredCategory?: string): string =>
+  def.description.replaceAll('{category}', featuredCategory ?? 'featured');
+
+// Spelled out here rather than taken from constants.ts, which loads the quest files through this module
+const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard', 'expert'];
+const STYLES: PuzzleStyle[] = ['classic', 'mosaic', 'jigsaw', 'hexagon', 'triangle', 'voronoi'];
+
+const isNumberList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'number');
+// A typo in a quest file would otherwise make a condition nothing can ever match
+const isListOf = (allowed: readonly string[]) => (value: unknown) => Array.isArray(value) && value.every(v => allowed.includes(v));
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+
+const isValidCondition = (value: unknown): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const c = value as Record<string, unknown>;
+  return isOptional(c.difficulty, isListOf(DIFFICULTIES))
+    && isOptional(c.style, isListOf(STYLES))
+    && isOptional(c.category, v => typeof v === 'string')
+    && isOptional(c.maxTime, v => typeof v === 'number')
+    && isOptional(c.maxHints, v => typeof v === 'number')
+    && isOptional(c.maxMoves, v => typeof v === 'number')
+    && isOptional(c.hours, v => isNumberList(v) && (v as number[]).length === 2)
+    && isOptional(c.chaos, v => typeof v === 'boolean')
+    && isOptional(c.daily, v => typeof v === 'boolean');
+};
+
+const isValidRule = (value: unknown): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Record<string, unknown>;
+  if (r.aggregate !== 'count' && r.aggregate !== 'sum' && r.aggregate !== 'streak') return false;
+  if (r.aggregate === 'sum' && r.field !== 'points' && r.field !== 'duration' && r.field !== 'moveCount') return false;
+  return isOptional(r.when, isValidCondition);
+};
+
+// Quest files are edited by hand; a malformed entry is left out rather than breaking every quest
+export const parseQuestDefinitions = (input: unknown): QuestDefinition[] => {
+  if (!Array.isArray(input)) return [];
+  return input.filter((value): value is QuestDefinition => {
+    const q = value as Record<string, unknown>;
+    const isValid = typeof q === 'object' && q !== null
+      && typeof q.id === 'string'
+      && typeof q.title === 'string'
+      && typeof q.description === 'string'
+      && typeof q.rewardPoints === 'number'
+      && typeof q.targetValue === 'number' && q.targetValue > 0
+      && isValidRule(q.rule);
+    if (!isValid) console.warn("Skipping malformed quest definition", value);
+    return isValid;
+  });
+};
@@ -0,0 +1,109 @@
+import { Piece, MoveHistory, GameReplay, ReplayEvent } from "../types";
+import { createPuzzlePieces } from "./puzzleUtils";
+import { resolveGridDrop, resolveFreeDrop, resolveRotation, resolveAutoPlace, DropResult } from "./placement";
+import { createHistory, recordMove, undoMove, redoMove } from "./moveHistory";
+import { applyChaos } from "./chaos";
+
+// Replays rebuild the starting layout from the seed and push the recorded events back through
+// the same pure placement engine the board uses, so no piece positions need to be stored.
+// `swap` and `lock` events are outcomes of a drop and are only kept for the timeline.
+
+export interface ReplayState {
+  pieces: Piece[];
+  history: MoveHistory;
+  heldPieceId: number | null;
+  hintPieceId: number | null;
+  hintUntil: number;
+}
+
+// Everything needed to rebuild a game; completion claims carry the same fields as replays
+export type ReplaySetup = Pick<GameReplay, 'difficulty' | 'style' | 'seed' | 'grid' | 'placementMode' | 'rotationMode'>;
+
+// Matches how long the board highlights a hint
+export const HINT_DURATION = 3000;
+
+// Positions are stored with two decimals, which is well below a pixel on any screen
+export const roundCoord = (value: number): number => Math.round(value * 100) / 100;
+
+export const createReplayState = (replay: ReplaySetup): ReplayState => ({
+  pieces: createPuzzlePieces(replay.difficulty, replay.style, {
+    seed: replay.seed,
+    grid: replay.grid,
+    placementMode: replay.placementMode,
+    rotate: replay.rotationMode
+  }),
+  history: createHistory(),
+  heldPieceId: null,
+  hintPieceId: null,
+  hintUntil: 0
+});
+
+export const applyReplayEvent = (state: ReplayState, event: ReplayEvent, replay: ReplaySetup): ReplayState => {
+  const { pieces, history } = state;
+
+  const withResult = (result: DropResult | null): ReplayState => (
+    result
+      ? { ...state, pieces: result.pieces, history: recordMove(history, pieces, result.pieces), heldPieceId: null }
+      : { ...state, heldPieceId: null }
+  );
+
+  switch (event.type) {
+    case 'pickup':
+      return { ...state, heldPieceId: event.pieceId ?? null };
+    case 'drop':
+      // A drop without a position is a tap: the piece was put back where it was
+      if (event.pieceId === undefined || event.x === undefined || event.y === undefined) return { ...state, heldPieceId: null };
+      return withResult(replay.placementMode === 'free'
+        ? resolveFreeDrop(pieces, event.pieceId, event.x, event.y, replay.difficulty)
+        : resolveGridDrop(pieces, event.pieceId, event.x, event.y));
+    case 'rotate': {
+      if (event.pieceId === undefined) return state;
+      const direction = event.direction ?? 1;
+      // A turn while the piece is held only changes its rotation; the drop resolves the rest
+      if (event.held) {
+        return {
+          ...state,
+          pieces: pieces.map(p => (p.id === event.pieceId ? { ...p, rotation: p.rotation + 90 * direction } : p))
+        };
+      }
+      return withResult(resolveRotation(pieces, event.pieceId, direction, replay.placementMode, replay.difficulty));
+    }
+    case 'undo': {
+      const result = undoMove(history, pieces);
+      return result ? { ...state, pieces: result.pieces, history: result.history } : state;
+    }
+    case 'redo': {
+      const result = redoMove(history, pieces);
+      return result ? { ...state, pieces: result.pieces, history: result.history } : state;
+    }
+    case 'chaos':
+      if (event.tick === undefined) return state;
+      // The board clears its undo history on every chaos tick, so the replay does too
+      return {
+        ...state,
+        pieces: applyChaos(pieces, replay.seed, event.tick, replay.placementMode, replay.rotationMode),
+        history: createHistory()
+      };
+    case 'hint': {
+      const highlighted = { ...state, hintPieceId: event.pieceId ?? null, hintUntil: event.t + HINT_DURATION };
+      // Placing a piece is the one hint that changes the board
+      if (event.hint !== 'autoPlace' || event.pieceId === undefined) return highlighted;
+      const result = resolveAutoPlace(pieces, event.pieceId, replay.placementMode, replay.difficulty);
+      return result
+        ? { ...highlighted, pieces: result.pieces, history: recordMove(history, pieces, result.pieces) }
+        : highlighted;
+    }
+    default:
+      return state;
+  }
+};
+
+// The board as it was `time` ms into the game
+export const replayUntil = (replay: GameReplay, time: number): ReplayState => {
+  let state = createReplayState(replay);
+  for (const event of replay.events) {
+    if (event.t > time) break;
+    state = applyReplayEvent(state, event, replay);
+  }
+  return state;
+};
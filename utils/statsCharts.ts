@@ -0,0 +1,123 @@
+import { CompletionHistoryEntry, Difficulty } from "../types";
+
+// Aggregations of the completion history for the stats charts. Buckets follow the player's
+// local calendar: days start at midnight and weeks on Monday.
+
+const DAY_MS = 86400000;
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChartSeries {
+  id: string;
+  points: (number | null)[]; // One per bucket; null where there's nothing to plot
+}
+
+export interface StreakRun {
+  start: number;
+  end: number;
+  length: number; // Days
+}
+
+export const startOfDay = (time: number): number => new Date(time).setHours(0, 0, 0, 0);
+
+export const startOfWeek = (time: number): number => {
+  const day = new Date(startOfDay(time));
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day.getTime();
+};
+
+// Bucket starts, oldest first, ending with the one holding `now`. Stepping by calendar date
+// keeps buckets aligned across daylight saving changes.
+const bucketStarts = (count: number, unit: 'day' | 'week', now: number): number[] => {
+  const last = new Date(unit === 'day' ? startOfDay(now) : startOfWeek(now));
+  const step = unit === 'day' ? 1 : 7;
+  return Array.from({ length: count }, (_, i) => {
+    const start = new Date(last);
+    start.setDate(last.getDate() - (count - 1 - i) * step);
+    return start.getTime();
+  });
+};
+
+const bucketLabel = (start: number, unit: 'day' | 'week'): string =>
+  unit === 'day'
+    ? new Date(start).toLocaleDateString(undefined, { weekday: 'short' })
+    : new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Splits the history into the buckets; entries older than the first bucket are left out
+const groupByBucket = (history: CompletionHistoryEntry[], starts: number[]): CompletionHistoryEntry[][] => {
+  const groups = starts.map((): CompletionHistoryEntry[] => []);
+  history.forEach(e => {
+    for (let i = starts.length - 1; i >= 0; i--) {
+      if (e.completedAt >= starts[i]) {
+        groups[i].push(e);
+        return;
+      }
+    }
+  });
+  return groups;
+};
+
+export const completionsPerBucket = (history: CompletionHistoryEntry[], count: number, unit: 'day' | 'week', now: number = Date.now()): ChartPoint[] => {
+  const starts = bucketStarts(count, unit, now);
+  return groupByBucket(history, starts).map((group, i) => ({ label: bucketLabel(starts[i], unit), value: group.length }));
+};
+
+export const pointsPerBucket = (history: CompletionHistoryEntry[], count: number, unit: 'day' | 'week', now: number = Date.now()): ChartPoint[] => {
+  const starts = bucketStarts(count, unit, now);
+  return groupByBucket(history, starts).map((group, i) => ({
+    label: bucketLabel(starts[i], unit),
+    value: group.reduce((sum, e) => sum + e.score, 0)
+  }));
+};
+
+// Average seconds per difficulty for each week; chaos games are left out as they aren't comparable
+export const averageTimeByDifficulty = (history: CompletionHistoryEntry[], weeks: number, now: number = Date.now()): { labels: string[]; series: ChartSeries[] } => {
+  const starts = bucketStarts(weeks, 'week', now);
+  const groups = groupByBucket(history.filter(e => !e.isChaosMode), starts);
+  const difficulties: Difficulty[] = ['easy', 'normal', 'hard', 'expert'];
+  return {
+    labels: starts.map(start => bucketLabel(start, 'week')),
+    series: difficulties.map(d => ({
+      id: d,
+      points: groups.map(group => {
+        const times = group.filter(e => e.difficulty === d).map(e => e.duration);
+        return times.length > 0 ? Math.round(times.reduce((sum, t) => sum + t, 0) / times.length) : null;
+      })
+    }))
+  };
+};
+
+// Categories by number of completions, most played first
+export const topCategories = (history: CompletionHistoryEntry[], limit: number): ChartPoint[] => {
+  const counts = new Map<string, number>();
+  history.forEach(e => {
+    const category = e.category ?? 'Other';
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label))
+    .slice(0, limit);
+};
+
+// Runs of consecutive days with a daily challenge solved, most recent first
+export const streakHistory = (history: CompletionHistoryEntry[]): StreakRun[] => {
+  const days = Array.from(new Set<number>(history.filter(e => e.puzzleId.startsWith('daily-')).map(e => startOfDay(e.completedAt))))
+    .sort((a, b) => a - b);
+
+  const runs: StreakRun[] = [];
+  days.forEach(day => {
+    const current = runs[runs.length - 1];
+    // Rounded, since a day across a daylight saving change isn't exactly 24 hours
+    if (current && Math.round((day - current.end) / DAY_MS) === 1) {
+      current.end = day;
+      current.length++;
+    } else {
+      runs.push({ start: day, end: day, length: 1 });
+    }
+  });
+  return runs.reverse();
+};
@@ -0,0 +1,239 @@
+import type { Rng } from "./puzzleUtils";
+
+// Polygon tessellations of the 0-100 board used by the Hexagon, Triangle and Voronoi styles.
+// Cells are built convex, so clipping against the board (or a Voronoi half-plane) stays simple.
+// Each style comes out at exactly rows x cols cells, the piece count the player picked.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Polygon = Point[];
+
+// Cells smaller than this fraction of an average cell are clipping slivers and get dropped
+const MIN_CELL_AREA_RATIO = 0.05;
+
+// Keep the part of a convex polygon where nx * x + ny * y <= limit (Sutherland-Hodgman, one edge)
+const clipPolygon = (poly: Polygon, nx: number, ny: number, limit: number): Polygon => {
+  const result: Polygon = [];
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    const da = nx * a.x + ny * a.y - limit;
+    const db = nx * b.x + ny * b.y - limit;
+
+    if (da <= 0) result.push(a);
+    if ((da < 0 && db > 0) || (da > 0 && db < 0)) {
+      const t = da / (da - db);
+      result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+  }
+  return result;
+};
+
+const clipToBoard = (poly: Polygon): Polygon => {
+  let clipped = clipPolygon(poly, -1, 0, 0);
+  clipped = clipPolygon(clipped, 1, 0, 100);
+  clipped = clipPolygon(clipped, 0, -1, 0);
+  return clipPolygon(clipped, 0, 1, 100);
+};
+
+export const polygonArea = (poly: Polygon): number => {
+  let area = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+export const polygonCentroid = (poly: Polygon): Point => {
+  let cx = 0;
+  let cy = 0;
+  let signedArea = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    const cross = a.x * b.y - b.x * a.y;
+    signedArea += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  if (Math.abs(signedArea) < 1e-9) {
+    // Degenerate polygon: fall back to the vertex average
+    return {
+      x: poly.reduce((sum, p) => sum + p.x, 0) / poly.length,
+      y: poly.reduce((sum, p) => sum + p.y, 0) / poly.length
+    };
+  }
+  return { x: cx / (3 * signedArea), y: cy / (3 * signedArea) };
+};
+
+const samePoint = (a: Point, b: Point): boolean => Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+
+// Joins two cells wound the same way that share an edge; null if they don't share one
+const mergeCells = (a: Polygon, b: Polygon): Polygon | null => {
+  for (let i = 0; i < a.length; i++) {
+    const from = a[i];
+    const to = a[(i + 1) % a.length];
+    const k = b.findIndex(p => samePoint(p, to));
+    if (k === -1 || !samePoint(b[(k + 1) % b.length], from)) continue;
+
+    // Round `a` from the shared edge's end back to its start, then round `b` past the shared edge
+    const merged: Polygon = [];
+    for (let j = 1; j <= a.length; j++) merged.push(a[(i + j) % a.length]);
+    for (let j = 2; j < b.length; j++) merged.push(b[(k + j) % b.length]);
+    return merged;
+  }
+  return null;
+};
+
+// The partial cell a row starts with becomes part of its neighbour, one cell fewer per row
+const mergeRowStart = (row: Polygon[]): Polygon[] => {
+  const cells = row.filter(cell => cell.length >= 3);
+  const merged = cells.length > 1 ? mergeCells(cells[0], cells[1]) : null;
+  return merged ? [merged, ...cells.slice(2)] : cells;
+};
+
+const dropSlivers = (cells: Polygon[], rows: number, cols: number): Polygon[] => {
+  const minArea = (10000 / (rows * cols)) * MIN_CELL_AREA_RATIO;
+  return cells.filter(cell => cell.length >= 3 && polygonArea(cell) >= minArea);
+};
+
+// Pointy-top hexagons stretched to the rows x cols grid. Odd rows are offset by half a cell,
+// so they get a half hexagon at each end; the left one joins its neighbour to keep `cols` cells
+// per row. The top and bottom rows are flattened onto the border.
+export const hexagonCells = (rows: number, cols: number): Polygon[] => {
+  const w = 100 / cols;
+  const h = 100 / rows;
+  const cells: Polygon[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    const isOdd = r % 2 === 1;
+    const cy = (r + 0.5) * h;
+    const firstCol = isOdd ? -1 : 0;
+    const row: Polygon[] = [];
+
+    for (let c = firstCol; c < cols; c++) {
+      const cx = (c + 0.5 + (isOdd ? 0.5 : 0)) * w;
+      const left = cx - w / 2;
+      const right = cx + w / 2;
+
+      const top: Polygon = r === 0
+        ? [{ x: left, y: 0 }, { x: right, y: 0 }]
+        : [{ x: left, y: cy - h / 3 }, { x: cx, y: cy - (2 * h) / 3 }, { x: right, y: cy - h / 3 }];
+      const bottom: Polygon = r === rows - 1
+        ? [{ x: right, y: 100 }, { x: left, y: 100 }]
+        : [{ x: right, y: cy + h / 3 }, { x: cx, y: cy + (2 * h) / 3 }, { x: left, y: cy + h / 3 }];
+
+      row.push(clipToBoard([...top, ...bottom]));
+    }
+    cells.push(...(isOdd ? mergeRowStart(row) : row));
+  }
+
+  return dropSlivers(cells, rows, cols);
+};
+
+// Alternating up/down triangles. Consecutive rows are shifted by half a base so the vertices
+// line up into a true triangular lattice. Each row holds `cols` triangles' worth of board plus
+// a part triangle at each end; the left one joins its neighbour, leaving `cols` cells.
+export const triangleCells = (rows: number, cols: number): Polygon[] => {
+  const base = 200 / cols;
+  const cells: Polygon[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    // Multiplied before dividing so the last row ends exactly on the border
+    const yTop = (r * 100) / rows;
+    const yBottom = ((r + 1) * 100) / rows;
+    const shift = r % 2 === 1 ? -base / 2 : 0;
+    const row: Polygon[] = [];
+
+    for (let j = -1; j * base + shift <= 100; j++) {
+      const x = j * base + shift;
+      // Pointing up: base on the bottom line
+      row.push(clipToBoard([
+        { x: x + base / 2, y: yTop },
+        { x: x + base, y: yBottom },
+        { x, y: yBottom }
+      ]));
+      // Pointing down: base on the top line
+      row.push(clipToBoard([
+        { x: x + base / 2, y: yTop },
+        { x: x + (3 * base) / 2, y: yTop },
+        { x: x + base, y: yBottom }
+      ]));
+    }
+    cells.push(...mergeRowStart(row));
+  }
+
+  return dropSlivers(cells, rows, cols);
+};
+
+// "Stained glass": Voronoi cells around one jittered site per grid cell
+export const voronoiCells = (rows: number, cols: number, rng: Rng): Polygon[] => {
+  const w = 100 / cols;
+  const h = 100 / rows;
+
+  const sites: Point[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      sites.push({
+        x: (c + 0.15 + rng() * 0.7) * w,
+        y: (r + 0.15 + rng() * 0.7) * h
+      });
+    }
+  }
+
+  const cells = sites.map((site, i) => {
+    let cell: Polygon = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+    // Nearest sites first: once a site is further than twice the cell's reach it can't cut it any more
+    const others = sites
+      .map((other, j) => ({ other, j, dist: Math.hypot(other.x - site.x, other.y - site.y) }))
+      .filter(o => o.j !== i)
+      .sort((a, b) => a.dist - b.dist);
+
+    for (const { other, dist } of others) {
+      const reach = Math.max(...cell.map(p => Math.hypot(p.x - site.x, p.y - site.y)));
+      if (dist > reach * 2) break;
+
+      // Keep the half-plane closer to `site` than to `other`
+      const nx = other.x - site.x;
+      const ny = other.y - site.y;
+      const limit = (other.x * other.x + other.y * other.y - site.x * site.x - site.y * site.y) / 2;
+      cell = clipPolygon(cell, nx, ny, limit);
+    }
+    return cell;
+  });
+
+  return dropSlivers(cells, rows, cols);
+};
+
+// Two cells are neighbours when they share an edge, i.e. at least two vertices
+export const findPolygonNeighbors = (cells: Polygon[]): number[][] => {
+  const eps = 0.01;
+  const bounds = cells.map(cell => ({
+    minX: Math.min(...cell.map(p => p.x)),
+    maxX: Math.max(...cell.map(p => p.x)),
+    minY: Math.min(...cell.map(p => p.y)),
+    maxY: Math.max(...cell.map(p => p.y))
+  }));
+  const neighbors: number[][] = cells.map(() => []);
+
+  for (let i = 0; i < cells.length; i++) {
+    for (let j = i + 1; j < cells.length; j++) {
+      const a = bounds[i];
+      const b = bounds[j];
+      if (a.maxX < b.minX - eps || b.maxX < a.minX - eps || a.maxY < b.minY - eps || b.maxY < a.minY - eps) continue;
+
+      const shared = cells[i].filter(p => cells[j].some(q => Math.abs(p.x - q.x) < eps && Math.abs(p.y - q.y) < eps));
+      if (shared.length >= 2) {
+        neighbors[i].push(j);
+        neighbors[j].push(i);
+      }
+    }
+  }
+  return neighbors;
+};
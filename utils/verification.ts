@@ -0,0 +1,158 @@
+import { CompletionClaim, ReplayEvent, ReplayEventType, HintType, ScoreBreakdown, Difficulty } from "../types";
+import { DIFFICULTY_SETTINGS, PUZZLE_STYLES, PLACEMENT_MODES, HINT_TYPES, CHAOS_SETTINGS, getHintCost, getHintBudget, getNominalPieceCount } from "../constants";
+import { createReplayState, applyReplayEvent } from "./replay";
+import { isPuzzleComplete } from "./placement";
+import { getDailySeed } from "./puzzleUtils";
+import { calculateScoreBreakdown } from "../services/statsService";
+
+// Server-side check of a completion claim. The claim is untrusted JSON, so its shape is
+// validated first; then the move log is pushed through the same replay engine the client
+// uses, and the puzzle has to end up solved, at a pace a person could manage, within the
+// hint budget. The claimed time can't be longer than the server has seen the game running.
+// The score is recomputed from the replayed game rather than taken from the claim.
+
+export type CompletionVerdict =
+  | { valid: true; score: number; breakdown: ScoreBreakdown; moveCount: number; pieceCount: number }
+  | { valid: false; reason: string };
+
+// Longest log accepted; a 1000 piece game rarely needs a tenth of this
+export const MAX_CLAIM_EVENTS = 50000;
+
+// The timer shows whole seconds, so the last move may land up to a second after the shown time.
+// The rest covers the round trips that start and finish a game.
+const TIMER_SLACK_MS = 2000;
+
+// Nobody picks up, carries and drops a piece into place sooner than this after the last one
+const MIN_MS_PER_PLACEMENT = 250;
+
+// Chaos skips its tick while a piece is held, so a game gets fewer ticks than its length allows,
+// but never fewer than this share of them
+const MIN_CHAOS_TICK_SHARE = 0.5;
+
+const EVENT_TYPES: ReplayEventType[] = ['pickup', 'drop', 'swap', 'rotate', 'hint', 'lock', 'undo', 'redo', 'chaos'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+
+const isValidEvent = (event: unknown): event is ReplayEvent => {
+  if (typeof event !== 'object' || event === null) return false;
+  const e = event as Record<string, unknown>;
+  return isCount(e.t)
+    && EVENT_TYPES.includes(e.type as ReplayEventType)
+    && isOptional(e.pieceId, isCount)
+    && isOptional(e.x, isFiniteNumber)
+    && isOptional(e.y, isFiniteNumber)
+    && isOptional(e.direction, v => v === 1 || v === -1)
+    && isOptional(e.held, v => typeof v === 'boolean')
+    && isOptional(e.tick, isCount)
+    && isOptional(e.hint, v => HINT_TYPES.some(h => h.id === v));
+};
+
+// Shape and ranges only; whether the game itself holds up is checked by replaying it
+const checkClaimShape = (claim: unknown): string | null => {
+  if (typeof claim !== 'object' || claim === null) return "Claim must be an object";
+  const c = claim as Record<string, unknown>;
+
+  if (typeof c.puzzleId !== 'string' || c.puzzleId.length === 0) return "Missing puzzle id";
+  if (typeof c.difficulty !== 'string' || !(c.difficulty in DIFFICULTY_SETTINGS)) return "Unknown difficulty";
+  if (!PUZZLE_STYLES.some(s => s.id === c.style)) return "Unknown style";
+  if (!PLACEMENT_MODES.some(m => m.id === c.placementMode)) return "Unknown placement mode";
+  if (typeof c.rotationMode !== 'boolean') return "Missing rotation mode";
+  if (!isOptional(c.isChaosMode, v => typeof v === 'boolean')) return "Invalid chaos flag";
+  if (typeof c.startToken !== 'string' || c.startToken.length === 0 || c.startToken.length > 64) return "Missing game start";
+  if (!isCount(c.seed) || c.seed === 0) return "Invalid seed";
+  const dailySeed = getDailySeed(c.puzzleId);
+  if (dailySeed !== null && c.seed !== dailySeed) return "Seed doesn't match the daily puzzle";
+  if (!isCount(c.duration)) return "Invalid duration";
+  if (!Array.isArray(c.events) || c.events.length === 0) return "Missing move log";
+  if (c.events.length > MAX_CLAIM_EVENTS) return "Move log too long";
+  if (!c.events.every(isValidEvent)) return "Malformed move log";
+
+  if (c.grid !== undefined) {
+    const grid = c.grid as Record<string, unknown>;
+    if (typeof grid !== 'object' || grid === null || !isCount(grid.rows) || !isCount(grid.cols) || grid.rows < 2 || grid.cols < 2) {
+      return "Invalid grid";
+    }
+    // Only the difficulty's own size or one of the piece count options can be played
+    if (getNominalPieceCount(c.difficulty as Difficulty, grid.rows * grid.cols) === null) return "Unsupported piece count";
+  }
+  return null;
+};
+
+// `elapsedMs` is how long ago, by the server's clock, the claim's start token was issued
+export const verifyCompletion = (input: unknown, elapsedMs: number): CompletionVerdict => {
+  const shapeError = checkClaimShape(input);
+  if (shapeError) return { valid: false, reason: shapeError };
+  const claim = input as CompletionClaim;
+  const durationMs = claim.duration * 1000;
+  if (durationMs > elapsedMs + TIMER_SLACK_MS) return { valid: false, reason: "Time is longer than the game has been running" };
+
+  for (let i = 1; i < claim.events.length; i++) {
+    if (claim.events[i].t < claim.events[i - 1].t) return { valid: false, reason: "Move log is out of order" };
+  }
+  // The shown time can't be shorter than the game the log describes
+  const lastEventAt = claim.events[claim.events.length - 1].t;
+  if (lastEventAt > durationMs + TIMER_SLACK_MS) return { valid: false, reason: "Time doesn't match the move log" };
+
+  // Chaos ticks are numbered from 0 and each one seeds its own disturbance, so none can be left
+  // out or made up. They come no faster than the chaos interval, and a chaos game has to have been
+  // disturbed about as often as its length implies; otherwise it would earn the chaos multiplier
+  // for a calm game.
+  if (claim.isChaosMode) {
+    const ticks = claim.events.filter(e => e.type === 'chaos');
+    if (ticks.some((e, i) => e.tick !== i)) return { valid: false, reason: "Chaos ticks are missing or out of order" };
+    if (ticks.some((e, i) => e.t < (i > 0 ? ticks[i - 1].t : 0) + CHAOS_SETTINGS.interval - TIMER_SLACK_MS)) {
+      return { valid: false, reason: "Chaos ticks came too close together" };
+    }
+    const expectedTicks = Math.floor(durationMs / CHAOS_SETTINGS.interval);
+    if (ticks.length === 0 || ticks.length < Math.floor(expectedTicks * MIN_CHAOS_TICK_SHARE)) {
+      return { valid: false, reason: "Too few chaos ticks for the game's length" };
+    }
+  } else if (claim.events.some(e => e.type === 'chaos')) {
+    return { valid: false, reason: "Chaos ticks in a calm game" };
+  }
+
+  let state = createReplayState(claim);
+  const pieceCount = state.pieces.length;
+  if (claim.events.some(e => e.pieceId !== undefined && e.pieceId >= pieceCount)) {
+    return { valid: false, reason: "Move log refers to unknown pieces" };
+  }
+
+  // Hints are paid from a budget set by the difficulty and the puzzle's size; old logs only had the 'locate' hint
+  const hintsUsed: HintType[] = claim.events.filter(e => e.type === 'hint').map(e => e.hint ?? 'locate');
+  const hintCost = hintsUsed.reduce((sum, type) => sum + getHintCost(type), 0);
+  if (hintCost > getHintBudget(claim.difficulty, pieceCount)) return { valid: false, reason: "More hints than the difficulty allows" };
+
+  // Every drop, swap or turn that changes the board is a move, the same count the board keeps.
+  // Moves by the player's own hand that lock something in are placements.
+  let moveCount = 0;
+  let lastPlacementAt: number | null = null;
+  for (const event of claim.events) {
+    // The board stops chaos once the puzzle is solved, so ticks can't be added on afterwards
+    if (event.type === 'chaos' && isPuzzleComplete(state.pieces)) return { valid: false, reason: "Chaos ticks after the puzzle was solved" };
+    const next = applyReplayEvent(state, event, claim);
+    const isMove = (event.type === 'drop' || event.type === 'rotate' || event.type === 'hint') && next.history !== state.history;
+    if (isMove) {
+      moveCount++;
+      const lockedBefore = state.pieces.filter(p => p.isLocked).length;
+      if (event.type !== 'hint' && next.pieces.filter(p => p.isLocked).length > lockedBefore) {
+        if (lastPlacementAt !== null && event.t - lastPlacementAt < MIN_MS_PER_PLACEMENT) {
+          return { valid: false, reason: "Pieces placed faster than humanly possible" };
+        }
+        lastPlacementAt = event.t;
+      }
+    }
+    state = next;
+  }
+
+  if (!isPuzzleComplete(state.pieces)) return { valid: false, reason: "The move log doesn't solve the puzzle" };
+
+  const breakdown = calculateScoreBreakdown(claim.difficulty, claim.duration, {
+    moveCount,
+    hintsUsed,
+    pieceCount,
+    isChaosMode: claim.isChaosMode
+  });
+  return { valid: true, score: breakdown.total, breakdown, moveCount, pieceCount };
+};